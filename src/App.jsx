@@ -7,6 +7,7 @@ import Navbar from "./components/AppLayout/Navbar";
 import PageNotFoundPage from "./Pages/PageNotFound";
 import HomePage from "./Pages/Home";
 import DijkstraPage from "./Pages/PathfindingPages/DijkstraPage";
+import RacePage from "./Pages/PathfindingPages/RacePage";
 import KruskalPage from "./Pages/MinimumSpanningTreePages/KruskalPage";
 import PrimPage from "./Pages/MinimumSpanningTreePages/PrimPage";
 
@@ -26,6 +27,7 @@ export default function App() {
 
               <Route path="/pathfinding">
                 <Route path="dijkstra" element={<DijkstraPage />} />
+                <Route path="race" element={<RacePage />} />
               </Route>
               <Route path="/minimum-spanning-tree">
                 <Route path="kruskal" element={<KruskalPage />} />
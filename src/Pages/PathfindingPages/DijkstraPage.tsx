@@ -1,9 +1,11 @@
 import DijkstraPathDrawer from "../../components/Pathfinding/DijsktraPathDrawer";
 import React, { useEffect, useRef, useState } from "react";
+import { GridSize } from "../../algorithms/grid";
 
 export default function DijkstraPage() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [cellSize, setCellSize] = useState(100);
+  const [gridSize, setGridSize] = useState<GridSize>({ cols: 111, rows: 111 });
 
   const drawCell = (x: number, y: number, color: string): void => {
     const ctx = canvasRef.current?.getContext("2d");
@@ -105,8 +107,11 @@ export default function DijkstraPage() {
 
       {/* Content Overlay */}
       <div className="relative flex justify-center items-center h-screen">
-
-          <DijkstraPathDrawer cols={111} rows={111} />
+        <DijkstraPathDrawer
+          cols={gridSize.cols}
+          rows={gridSize.rows}
+          onResize={setGridSize}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,9 @@
+import AlgorithmRace from "../../components/Pathfinding/AlgorithmRace";
+
+export default function RacePage() {
+  return (
+    <div className="flex justify-center py-4">
+      <AlgorithmRace cols={71} rows={71} />
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { Point } from "./grid";
+import { JumpPoint } from "./jumpPointSearch";
+
+// Lines of pseudocode a step can execute, see ./pseudocode
+export type AlgorithmPhase =
+  | "init"
+  | "pop"
+  | "visit"
+  | "found"
+  | "relax"
+  | "push"
+  | "meet"
+  | "prune"
+  | "jump"
+  | "unreachable"
+  | "pickCell"
+  | "pickNeighbor"
+  | "carve"
+  | "addFrontier"
+  | "pickWall"
+  | "findSets"
+  | "union";
+
+// What a step of an algorithm did to the grid
+export type AlgorithmEvent =
+  // The step reached a line of the pseudocode, reported in execution order
+  | { type: "phase"; phase: AlgorithmPhase }
+  // A search expanded (x, y). Bidirectional searches tell which frontier did.
+  | { type: "visit"; x: number; y: number; direction?: "forward" | "reverse" }
+  // A cell was added to the frontier, with its distance for searches
+  | { type: "frontier"; x: number; y: number; dist?: number }
+  // A maze generator turned a wall into a passage
+  | { type: "carve"; x: number; y: number }
+  // Jump point search jumped from a cell to the next jump point
+  | { type: "jump"; from: Point; to: JumpPoint }
+  // The search finished with a path, ordered source ... target
+  | { type: "path"; path: Point[]; cost: number; meetingPoint?: Point }
+  // The search ran out of cells; `reachable` is what the source can reach
+  | { type: "unreachable"; reachable: Point[] };
+
+// The events of one step, such as expanding a cell or removing a wall
+export type AlgorithmStep = AlgorithmEvent[];
+
+export function phaseEvent(phase: AlgorithmPhase): AlgorithmEvent {
+  return { type: "phase", phase };
+}
+
+export type AlgorithmListener = (event: AlgorithmEvent) => void;
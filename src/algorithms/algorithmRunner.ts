@@ -0,0 +1,49 @@
+import { AlgorithmListener, AlgorithmStep } from "./algorithmEvents";
+
+// Drives a step generator and hands its events to the subscribers
+export interface AlgorithmRunner {
+  readonly stepCount: number;
+  readonly done: boolean;
+  // Takes up to `count` steps, returning false once the algorithm finished
+  step(count?: number): boolean;
+  // Returns a function that removes the listener again
+  subscribe(listener: AlgorithmListener): () => void;
+}
+
+export function createAlgorithmRunner(
+  steps: Iterator<AlgorithmStep, void>
+): AlgorithmRunner {
+  const listeners = new Set<AlgorithmListener>();
+  let stepCount = 0;
+  let done = false;
+
+  return {
+    get stepCount() {
+      return stepCount;
+    },
+
+    get done() {
+      return done;
+    },
+
+    step(count = 1) {
+      for (let i = 0; i < count && !done; i++) {
+        const result = steps.next();
+        if (result.done === true) {
+          done = true;
+          break;
+        }
+        stepCount++;
+        for (const event of result.value) {
+          listeners.forEach((listener) => listener(event));
+        }
+      }
+      return !done;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
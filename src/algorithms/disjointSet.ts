@@ -0,0 +1,56 @@
+// Union-find over sets numbered 0, 1, 2, ... in the order they were added
+export interface DisjointSet {
+  // Number of sets left after the unions so far
+  readonly count: number;
+  // Adds a set holding a single element and returns its id
+  add(): number;
+  // Id of the set representing the set `id` belongs to
+  find(id: number): number;
+  // Merges the two sets, returning false if they were already one
+  union(a: number, b: number): boolean;
+}
+
+export function createDisjointSet(): DisjointSet {
+  const parents: number[] = [];
+  const sizes: number[] = [];
+  let count = 0;
+
+  function find(id: number): number {
+    if (parents[id] === id) return id;
+    const root = find(parents[id]);
+    parents[id] = root;
+    return root;
+  }
+
+  return {
+    get count() {
+      return count;
+    },
+
+    add() {
+      parents.push(parents.length);
+      sizes.push(1);
+      count++;
+      return parents.length - 1;
+    },
+
+    find,
+
+    union(a, b) {
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA === rootB) return false;
+
+      // Hang the smaller tree below the larger one
+      if (sizes[rootA] < sizes[rootB]) {
+        parents[rootA] = rootB;
+        sizes[rootB] += sizes[rootA];
+      } else {
+        parents[rootB] = rootA;
+        sizes[rootA] += sizes[rootB];
+      }
+      count--;
+      return true;
+    },
+  };
+}
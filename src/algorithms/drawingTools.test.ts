@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  getBrushCells,
+  getFloodFillCells,
+  getLineCells,
+  getRectangleCells,
+} from "./drawingTools";
+import { Point } from "./grid";
+
+function sortCells(cells: Point[]): Point[] {
+  return [...cells].sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+describe("getLineCells", () => {
+  it("steps one cell at a time between both ends", () => {
+    const cells = getLineCells({ x: 1, y: 5 }, { x: 8, y: 2 });
+    expect(cells[0]).toEqual({ x: 1, y: 5 });
+    expect(cells[cells.length - 1]).toEqual({ x: 8, y: 2 });
+    expect(cells).toHaveLength(8);
+    for (let i = 1; i < cells.length; i++) {
+      expect(Math.abs(cells[i].x - cells[i - 1].x)).toBeLessThanOrEqual(1);
+      expect(Math.abs(cells[i].y - cells[i - 1].y)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("draws a single cell when both ends meet", () => {
+    expect(getLineCells({ x: 3, y: 3 }, { x: 3, y: 3 })).toEqual([
+      { x: 3, y: 3 },
+    ]);
+  });
+});
+
+describe("getRectangleCells", () => {
+  it("lists every outline cell once", () => {
+    const cells = getRectangleCells({ x: 4, y: 3 }, { x: 1, y: 1 });
+    expect(cells).toHaveLength(10);
+    expect(new Set(cells.map(({ x, y }) => `${x},${y}`)).size).toBe(10);
+    expect(cells).not.toContainEqual({ x: 2, y: 2 });
+  });
+
+  it("draws a line for a rectangle one cell high", () => {
+    expect(getRectangleCells({ x: 0, y: 0 }, { x: 2, y: 0 })).toEqual([
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+    ]);
+  });
+});
+
+describe("getBrushCells", () => {
+  it("covers overlapping squares once, clipped to the grid", () => {
+    const size = { cols: 5, rows: 5 };
+    const cells = getBrushCells(
+      size,
+      [
+        { x: 0, y: 0 },
+        { x: 1, y: 0 },
+      ],
+      3
+    );
+    expect(sortCells(cells)).toEqual([
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+    ]);
+  });
+});
+
+describe("getFloodFillCells", () => {
+  it("fills the region of the start cell through its four neighbors", () => {
+    const rows = ["..#..", "..#..", "###..", "....."];
+    const open = (x: number, y: number) => rows[y][x] === ".";
+    const size = { cols: 5, rows: 4 };
+
+    const cells = getFloodFillCells(size, { x: 0, y: 0 }, open);
+    expect(cells[0]).toEqual({ x: 0, y: 0 });
+    expect(sortCells(cells)).toEqual([
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+    ]);
+    expect(getFloodFillCells(size, { x: 4, y: 0 }, open)).toHaveLength(11);
+    expect(getFloodFillCells(size, { x: 9, y: 0 }, open)).toEqual([]);
+  });
+});
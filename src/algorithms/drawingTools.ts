@@ -0,0 +1,114 @@
+import { createMatrix, GridSize, isInBounds, Point } from "./grid";
+
+// How a drawing brush is applied to the grid
+export type DrawingTool = "brush" | "line" | "rectangle" | "fill";
+
+export const drawingToolLabels: Record<DrawingTool, string> = {
+  brush: "Brush",
+  line: "Line",
+  rectangle: "Rectangle",
+  fill: "Fill",
+};
+
+export const maxBrushSize = 15;
+
+// Cells on the straight line from `from` to `to`, both ends included,
+// by Bresenham's line algorithm
+export function getLineCells(from: Point, to: Point): Point[] {
+  const cells: Point[] = [];
+  let { x, y } = from;
+  const dx = Math.abs(to.x - x);
+  const sx = x < to.x ? 1 : -1;
+  const dy = -Math.abs(to.y - y);
+  const sy = y < to.y ? 1 : -1;
+  let error = dx + dy;
+
+  while (true) {
+    cells.push({ x, y });
+    if (x === to.x && y === to.y) break;
+
+    const e2 = 2 * error;
+    if (e2 >= dy) {
+      if (x === to.x) break;
+      error += dy;
+      x += sx;
+    }
+    if (e2 <= dx) {
+      if (y === to.y) break;
+      error += dx;
+      y += sy;
+    }
+  }
+  return cells;
+}
+
+// Cells on the outline of the rectangle with opposite corners `from` and `to`
+export function getRectangleCells(from: Point, to: Point): Point[] {
+  const left = Math.min(from.x, to.x);
+  const right = Math.max(from.x, to.x);
+  const top = Math.min(from.y, to.y);
+  const bottom = Math.max(from.y, to.y);
+  const cells: Point[] = [];
+
+  for (let x = left; x <= right; x++) {
+    cells.push({ x, y: top });
+    if (bottom > top) cells.push({ x, y: bottom });
+  }
+  for (let y = top + 1; y < bottom; y++) {
+    cells.push({ x: left, y });
+    if (right > left) cells.push({ x: right, y });
+  }
+  return cells;
+}
+
+// Cells covered by a square brush of `size` cells centered on each point,
+// once each and clipped to the grid
+export function getBrushCells(
+  size: GridSize,
+  points: Point[],
+  brushSize: number
+): Point[] {
+  const offset = Math.floor((brushSize - 1) / 2);
+  const covered = createMatrix(size, false);
+  const cells: Point[] = [];
+
+  for (const point of points) {
+    for (let y = point.y - offset; y < point.y - offset + brushSize; y++) {
+      for (let x = point.x - offset; x < point.x - offset + brushSize; x++) {
+        if (!isInBounds(size, x, y) || covered[y][x]) continue;
+        covered[y][x] = true;
+        cells.push({ x, y });
+      }
+    }
+  }
+  return cells;
+}
+
+// The region of cells connected to `start` through its four neighbors that
+// `isSameRegion` accepts, `start` first
+export function getFloodFillCells(
+  size: GridSize,
+  start: Point,
+  isSameRegion: (x: number, y: number) => boolean
+): Point[] {
+  if (!isInBounds(size, start.x, start.y)) return [];
+  const reached = createMatrix(size, false);
+  reached[start.y][start.x] = true;
+  const cells: Point[] = [start];
+
+  for (let i = 0; i < cells.length; i++) {
+    const { x, y } = cells[i];
+    for (const [nx, ny] of [
+      [x + 1, y],
+      [x - 1, y],
+      [x, y + 1],
+      [x, y - 1],
+    ]) {
+      if (!isInBounds(size, nx, ny) || reached[ny][nx]) continue;
+      if (!isSameRegion(nx, ny)) continue;
+      reached[ny][nx] = true;
+      cells.push({ x: nx, y: ny });
+    }
+  }
+  return cells;
+}
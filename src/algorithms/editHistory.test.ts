@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { createEditHistory, EditHistory } from "./editHistory";
+import { createMatrix } from "./grid";
+
+type State = "passage" | "blocked" | "source" | "target";
+
+// A small grid whose edits are recorded the way the page records them
+function createEditor(limit?: number) {
+  const cells = createMatrix<State>({ cols: 5, rows: 3 }, "passage");
+  const history: EditHistory<State> = createEditHistory<State>(limit);
+  const apply = (x: number, y: number, state: State) => {
+    cells[y][x] = state;
+  };
+
+  function set(x: number, y: number, state: State): void {
+    history.record(x, y, cells[y][x], state);
+    cells[y][x] = state;
+  }
+
+  // One pointer stroke or action, ending with the pointer
+  function edit(draw: () => void): void {
+    history.beginEdit();
+    draw();
+    history.endEdit();
+  }
+
+  function snapshot(): State[][] {
+    return cells.map((row) => [...row]);
+  }
+
+  return {
+    cells,
+    history,
+    set,
+    edit,
+    snapshot,
+    undo: () => history.undo(apply),
+    redo: () => history.redo(apply),
+  };
+}
+
+describe("createEditHistory", () => {
+  it("undoes a whole pointer stroke as one edit", () => {
+    const editor = createEditor();
+    const before = editor.snapshot();
+    editor.edit(() => {
+      for (let x = 0; x < 4; x++) editor.set(x, 1, "blocked");
+    });
+
+    expect(editor.history.canUndo).toBe(true);
+    expect(editor.undo()).toBe(true);
+    expect(editor.cells).toEqual(before);
+    expect(editor.history.canUndo).toBe(false);
+  });
+
+  it("moves the source and target back and forth", () => {
+    const editor = createEditor();
+    editor.edit(() => editor.set(0, 0, "source"));
+    editor.edit(() => editor.set(4, 2, "target"));
+    const placed = editor.snapshot();
+    editor.edit(() => {
+      editor.set(0, 0, "passage");
+      editor.set(2, 1, "source");
+    });
+    const moved = editor.snapshot();
+
+    editor.undo();
+    expect(editor.cells).toEqual(placed);
+    editor.redo();
+    expect(editor.cells).toEqual(moved);
+    expect(editor.cells[1][2]).toBe("source");
+    expect(editor.cells[0][0]).toBe("passage");
+  });
+
+  it("restores the exact cells on undo and redo", () => {
+    const editor = createEditor();
+    const states = [editor.snapshot()];
+    editor.edit(() => {
+      editor.set(1, 1, "blocked");
+      editor.set(2, 1, "blocked");
+    });
+    states.push(editor.snapshot());
+    // A cell changed twice within one edit returns to where it started
+    editor.edit(() => {
+      editor.set(1, 1, "passage");
+      editor.set(3, 0, "blocked");
+      editor.set(1, 1, "target");
+    });
+    states.push(editor.snapshot());
+
+    expect(editor.undo()).toBe(true);
+    expect(editor.cells).toEqual(states[1]);
+    expect(editor.undo()).toBe(true);
+    expect(editor.cells).toEqual(states[0]);
+    expect(editor.undo()).toBe(false);
+    expect(editor.redo()).toBe(true);
+    expect(editor.redo()).toBe(true);
+    expect(editor.cells).toEqual(states[2]);
+    expect(editor.redo()).toBe(false);
+  });
+
+  it("forgets undone edits once a new edit is made", () => {
+    const editor = createEditor();
+    editor.edit(() => editor.set(0, 0, "blocked"));
+    editor.undo();
+    expect(editor.history.canRedo).toBe(true);
+
+    // Edits that change nothing are not kept and keep the redo stack
+    editor.edit(() => editor.set(1, 0, "passage"));
+    expect(editor.history.canRedo).toBe(true);
+    editor.edit(() => editor.set(1, 0, "blocked"));
+    expect(editor.history.canRedo).toBe(false);
+    expect(editor.redo()).toBe(false);
+    expect(editor.cells[0][0]).toBe("passage");
+  });
+
+  it("keeps only the most recent edits up to its limit", () => {
+    const editor = createEditor(3);
+    for (let x = 0; x < 5; x++) editor.edit(() => editor.set(x, 0, "blocked"));
+
+    let undone = 0;
+    while (editor.undo()) undone++;
+    expect(undone).toBe(3);
+    expect(editor.cells[0]).toEqual([
+      "blocked",
+      "blocked",
+      "passage",
+      "passage",
+      "passage",
+    ]);
+  });
+
+  it("drops everything when cleared", () => {
+    const editor = createEditor();
+    editor.edit(() => editor.set(0, 0, "blocked"));
+    editor.edit(() => editor.set(1, 0, "blocked"));
+    editor.undo();
+    editor.history.clear();
+    expect(editor.history.canUndo).toBe(false);
+    expect(editor.history.canRedo).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import { CellChange } from "./timeline";
+
+// Undo and redo stacks of grid edits, each edit grouping every cell change
+// made by one action such as a pointer stroke
+export interface EditHistory<S> {
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  // Starts recording an edit. Edits are only kept once they end.
+  beginEdit(): void;
+  // Notes a change made by the edit being recorded
+  record(x: number, y: number, from: S, to: S): void;
+  // Keeps the edit if it changed any cell, which drops the edits undone before
+  endEdit(): void;
+  // Reverts or reapplies the changes of one edit, calling `apply` with the
+  // state every changed cell should get. Returns whether there was an edit.
+  undo(apply: (x: number, y: number, state: S) => void): boolean;
+  redo(apply: (x: number, y: number, state: S) => void): boolean;
+  clear(): void;
+}
+
+// Edits kept before the oldest ones are forgotten
+const defaultLimit = 100;
+
+export function createEditHistory<S>(limit = defaultLimit): EditHistory<S> {
+  const undoStack: CellChange<S>[][] = [];
+  const redoStack: CellChange<S>[][] = [];
+  let recording: CellChange<S>[] | null = null;
+
+  return {
+    get canUndo() {
+      return undoStack.length > 0;
+    },
+
+    get canRedo() {
+      return redoStack.length > 0;
+    },
+
+    beginEdit() {
+      recording = [];
+    },
+
+    record(x, y, from, to) {
+      if (recording != null && from !== to) {
+        recording.push({ x, y, from, to });
+      }
+    },
+
+    endEdit() {
+      if (recording == null) return;
+      if (recording.length > 0) {
+        undoStack.push(recording);
+        if (undoStack.length > limit) undoStack.shift();
+        redoStack.length = 0;
+      }
+      recording = null;
+    },
+
+    undo(apply) {
+      const changes = undoStack.pop();
+      if (changes == null) return false;
+      // In the reverse order the changes were made
+      for (let i = changes.length - 1; i >= 0; i--) {
+        const { x, y, from } = changes[i];
+        apply(x, y, from);
+      }
+      redoStack.push(changes);
+      return true;
+    },
+
+    redo(apply) {
+      const changes = redoStack.pop();
+      if (changes == null) return false;
+      for (const { x, y, to } of changes) apply(x, y, to);
+      undoStack.push(changes);
+      return true;
+    },
+
+    clear() {
+      undoStack.length = 0;
+      redoStack.length = 0;
+      recording = null;
+    },
+  };
+}
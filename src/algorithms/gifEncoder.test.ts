@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import { encodeGif, GifFrame } from "./gifEncoder";
+
+interface DecodedFrame {
+  delayCs: number;
+  // Colors of the whole picture once the frame is drawn, as 0xrrggbb
+  colors: number[];
+}
+
+// Undoes the variable-length LZW of one image's palette indices
+function decodeLzw(data: number[], minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const indices: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  function reset(): void {
+    table = Array.from({ length: clearCode }, (_, i) => [i]);
+    table.push([], []);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  }
+
+  reset();
+  for (const byte of data) {
+    bitBuffer |= byte << bitCount;
+    bitCount += 8;
+    while (bitCount >= codeSize) {
+      const code = bitBuffer & ((1 << codeSize) - 1);
+      bitBuffer >>= codeSize;
+      bitCount -= codeSize;
+      if (code === clearCode) {
+        reset();
+        continue;
+      }
+      if (code === endCode) return indices;
+
+      let entry: number[];
+      if (code < table.length) {
+        entry = table[code];
+      } else if (previous != null) {
+        entry = [...previous, previous[0]];
+      } else {
+        throw new Error(`Unexpected code ${code}`);
+      }
+      indices.push(...entry);
+      if (previous != null && table.length < 4096) {
+        table.push([...previous, entry[0]]);
+        if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+      }
+      previous = entry;
+    }
+  }
+  throw new Error("The image data has no end code");
+}
+
+// Reads back the frames of a GIF with a global palette, drawing each one over
+// the picture left by the ones before
+function decodeGif(bytes: Uint8Array) {
+  let offset = 0;
+  const read = () => bytes[offset++];
+  const readWord = () => read() | (read() << 8);
+  const readText = (length: number) =>
+    String.fromCharCode(...bytes.slice(offset, (offset += length)));
+  function readSubBlocks(): number[] {
+    const data: number[] = [];
+    for (let size = read(); size > 0; size = read()) {
+      data.push(...bytes.slice(offset, (offset += size)));
+    }
+    return data;
+  }
+
+  expect(readText(6)).toBe("GIF89a");
+  const width = readWord();
+  const height = readWord();
+  const flags = read();
+  offset += 2;
+  const palette: number[] = [];
+  for (let i = 0; i < 1 << ((flags & 7) + 1); i++) {
+    palette.push((read() << 16) | (read() << 8) | read());
+  }
+
+  const picture = new Array<number>(width * height).fill(-1);
+  const frames: DecodedFrame[] = [];
+  let delayCs = 0;
+  let loops = false;
+  while (offset < bytes.length) {
+    const block = read();
+    if (block === 0x3b) break;
+    if (block === 0x21) {
+      const label = read();
+      const data = readSubBlocks();
+      if (label === 0xf9) delayCs = data[1] | (data[2] << 8);
+      if (label === 0xff) loops = true;
+      continue;
+    }
+    expect(block).toBe(0x2c);
+    const left = readWord();
+    const top = readWord();
+    const frameWidth = readWord();
+    readWord();
+    read();
+    const minCodeSize = read();
+    const indices = decodeLzw(readSubBlocks(), minCodeSize);
+    indices.forEach((index, i) => {
+      const x = left + (i % frameWidth);
+      const y = top + Math.floor(i / frameWidth);
+      picture[y * width + x] = palette[index];
+    });
+    frames.push({ delayCs, colors: [...picture] });
+  }
+  return { width, height, loops, frames };
+}
+
+// A width × height frame of one color with a few cells changed
+function createFrame(
+  width: number,
+  height: number,
+  color: number,
+  changes: Array<[number, number]>,
+  delayMs: number
+): GifFrame {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const cellColor = changes.find(([index]) => index === i)?.[1] ?? color;
+    pixels.set(
+      [cellColor >> 16, (cellColor >> 8) & 0xff, cellColor & 0xff, 255],
+      i * 4
+    );
+  }
+  return { pixels, delayMs };
+}
+
+// The colors of a frame with every cell repeated scale × scale times
+function scaleColors(
+  frame: GifFrame,
+  width: number,
+  height: number,
+  scale: number
+): number[] {
+  const colors: number[] = [];
+  for (let y = 0; y < height * scale; y++) {
+    for (let x = 0; x < width * scale; x++) {
+      const i = (Math.floor(y / scale) * width + Math.floor(x / scale)) * 4;
+      const { pixels } = frame;
+      colors.push((pixels[i] << 16) | (pixels[i + 1] << 8) | pixels[i + 2]);
+    }
+  }
+  return colors;
+}
+
+describe("encodeGif", () => {
+  it("encodes frames that decode to the same pictures", () => {
+    const frames = [
+      createFrame(5, 4, 0x224466, [], 100),
+      createFrame(5, 4, 0x224466, [[7, 0xff0000]], 50),
+      createFrame(5, 4, 0x224466, [[7, 0xff0000]], 30),
+      createFrame(
+        5,
+        4,
+        0x224466,
+        [
+          [7, 0xff0000],
+          [19, 0x00ff00],
+        ],
+        40
+      ),
+    ];
+    const gif = decodeGif(encodeGif(frames, 5, 4, 3));
+
+    expect(gif.width).toBe(15);
+    expect(gif.height).toBe(12);
+    expect(gif.loops).toBe(true);
+    // The frame without changes extends the one before it
+    expect(gif.frames.map(({ delayCs }) => delayCs)).toEqual([10, 8, 4]);
+    expect(gif.frames.map(({ colors }) => colors)).toEqual(
+      [frames[0], frames[1], frames[3]].map((frame) =>
+        scaleColors(frame, 5, 4, 3)
+      )
+    );
+  });
+
+  it("keeps a long run of one color intact across code size changes", () => {
+    const changes = Array.from({ length: 40 }, (_, i): [number, number] => [
+      i * 37,
+      (i * 0x050301) & 0xffffff,
+    ]);
+    const frame = createFrame(60, 50, 0xffffff, changes, 20);
+    const gif = decodeGif(encodeGif([frame], 60, 50, 2));
+    expect(gif.frames[0].colors).toEqual(scaleColors(frame, 60, 50, 2));
+  });
+});
@@ -0,0 +1,264 @@
+// One captured picture of the grid, held for delayMs before the next one
+export interface GifFrame {
+  // RGBA pixels, one per grid cell
+  pixels: Uint8ClampedArray;
+  delayMs: number;
+}
+
+// Bytes appended to a buffer that doubles as it fills
+function createByteWriter() {
+  let bytes = new Uint8Array(1 << 16);
+  let length = 0;
+
+  function push(byte: number): void {
+    if (length === bytes.length) {
+      const grown = new Uint8Array(bytes.length * 2);
+      grown.set(bytes);
+      bytes = grown;
+    }
+    bytes[length++] = byte;
+  }
+
+  return {
+    push,
+    pushWord(value: number): void {
+      push(value & 0xff);
+      push((value >> 8) & 0xff);
+    },
+    pushText(text: string): void {
+      for (const char of text) push(char.charCodeAt(0));
+    },
+    toBytes(): Uint8Array {
+      return bytes.slice(0, length);
+    },
+  };
+}
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+function getColor(pixels: Uint8ClampedArray, i: number): number {
+  return (pixels[i * 4] << 16) | (pixels[i * 4 + 1] << 8) | pixels[i * 4 + 2];
+}
+
+// Up to 256 colors exactly, or every color rounded to 3 bits of red and green
+// and 2 bits of blue when the frames hold more
+function createPalette(frames: GifFrame[]) {
+  const indices = new Map<number, number>();
+  for (const { pixels } of frames) {
+    for (let i = 0; i < pixels.length / 4 && indices.size <= 256; i++) {
+      const color = getColor(pixels, i);
+      if (!indices.has(color)) indices.set(color, indices.size);
+    }
+  }
+
+  if (indices.size <= 256) {
+    return {
+      colors: [...indices.keys()],
+      indexOf: (color: number) => indices.get(color)!,
+    };
+  }
+  const colors = Array.from({ length: 256 }, (_, i) => {
+    const red = ((i >> 5) * 255) / 7;
+    const green = (((i >> 2) & 7) * 255) / 7;
+    const blue = ((i & 3) * 255) / 3;
+    return (red << 16) | (green << 8) | blue;
+  });
+  return {
+    colors,
+    indexOf: (color: number) =>
+      ((color >> 16) & 0xe0) |
+      (((color >> 8) & 0xe0) >> 3) |
+      ((color & 0xc0) >> 6),
+  };
+}
+
+// Variable-length LZW over palette indices, written as GIF data sub-blocks
+function writeLzw(
+  writer: ByteWriter,
+  indices: Uint8Array,
+  minCodeSize: number
+) {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  function flushBlock(): void {
+    writer.push(block.length);
+    block.forEach(writer.push);
+    block.length = 0;
+  }
+
+  function writeCode(code: number, size: number): void {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      if (block.length === 255) flushBlock();
+      bitBuffer >>= 8;
+      bitCount -= 8;
+    }
+  }
+
+  let codes = new Map<number, number>();
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+  writeCode(clearCode, codeSize);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = prefix * 256 + indices[i];
+    const known = codes.get(key);
+    if (known !== undefined) {
+      prefix = known;
+      continue;
+    }
+    writeCode(prefix, codeSize);
+    if (nextCode === 4096) {
+      // The code table is full, start a fresh one
+      writeCode(clearCode, codeSize);
+      codes = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode === 1 << codeSize) codeSize++;
+      codes.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  writeCode(prefix, codeSize);
+  writeCode(endCode, codeSize);
+  if (bitCount > 0) block.push(bitBuffer & 0xff);
+  if (block.length > 0) flushBlock();
+  writer.push(0);
+}
+
+// Smallest rectangle of cells that differ between two frames
+function getChangedArea(
+  previous: Uint8ClampedArray,
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number
+) {
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (getColor(previous, i) === getColor(pixels, i)) continue;
+      left = Math.min(left, x);
+      right = Math.max(right, x);
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y);
+    }
+  }
+  if (right === -1) return null;
+  return { left, top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+// An animated GIF of a width × height grid, every cell drawn scale pixels
+// wide. Frames after the first only store the cells that changed, and frames
+// without changes extend the one before
+export function encodeGif(
+  frames: GifFrame[],
+  width: number,
+  height: number,
+  scale: number
+): Uint8Array {
+  const writer = createByteWriter();
+  const palette = createPalette(frames);
+  const tableBits = Math.max(
+    1,
+    Math.ceil(Math.log2(Math.max(palette.colors.length, 2)))
+  );
+  const minCodeSize = Math.max(2, tableBits);
+
+  writer.pushText("GIF89a");
+  writer.pushWord(width * scale);
+  writer.pushWord(height * scale);
+  writer.push(0xf0 | (tableBits - 1));
+  writer.push(0);
+  writer.push(0);
+  for (let i = 0; i < 1 << tableBits; i++) {
+    const color = palette.colors[i] ?? 0;
+    writer.push((color >> 16) & 0xff);
+    writer.push((color >> 8) & 0xff);
+    writer.push(color & 0xff);
+  }
+  // Loop forever
+  writer.push(0x21);
+  writer.push(0xff);
+  writer.push(11);
+  writer.pushText("NETSCAPE2.0");
+  writer.push(3);
+  writer.push(1);
+  writer.pushWord(0);
+  writer.push(0);
+
+  // Frames that change something, with the delays of those that do not
+  const shownFrames: Array<{ frame: GifFrame; delayMs: number }> = [];
+  for (const frame of frames) {
+    const last = shownFrames[shownFrames.length - 1];
+    if (
+      last != null &&
+      getChangedArea(last.frame.pixels, frame.pixels, width, height) == null
+    ) {
+      last.delayMs += frame.delayMs;
+    } else {
+      shownFrames.push({ frame, delayMs: frame.delayMs });
+    }
+  }
+
+  // GIF delays are in hundredths of a second, carry the rounding along
+  let elapsedMs = 0;
+  let writtenCs = 0;
+  let previous: Uint8ClampedArray | null = null;
+  for (const { frame, delayMs } of shownFrames) {
+    elapsedMs += delayMs;
+    const delayCs = Math.max(2, Math.round(elapsedMs / 10) - writtenCs);
+    writtenCs += delayCs;
+
+    const area =
+      previous == null
+        ? { left: 0, top: 0, width, height }
+        : getChangedArea(previous, frame.pixels, width, height)!;
+    previous = frame.pixels;
+
+    // Graphic control: keep the previous frame under this one
+    writer.push(0x21);
+    writer.push(0xf9);
+    writer.push(4);
+    writer.push(0x04);
+    writer.pushWord(delayCs);
+    writer.push(0);
+    writer.push(0);
+
+    writer.push(0x2c);
+    writer.pushWord(area.left * scale);
+    writer.pushWord(area.top * scale);
+    writer.pushWord(area.width * scale);
+    writer.pushWord(area.height * scale);
+    writer.push(0);
+
+    const scaledWidth = area.width * scale;
+    const indices = new Uint8Array(scaledWidth * area.height * scale);
+    for (let y = 0; y < area.height; y++) {
+      for (let x = 0; x < area.width; x++) {
+        const i = (area.top + y) * width + area.left + x;
+        const index = palette.indexOf(getColor(frame.pixels, i));
+        for (let dy = 0; dy < scale; dy++) {
+          const rowStart = (y * scale + dy) * scaledWidth + x * scale;
+          indices.fill(index, rowStart, rowStart + scale);
+        }
+      }
+    }
+    writer.push(minCodeSize);
+    writeLzw(writer, indices, minCodeSize);
+  }
+
+  writer.push(0x3b);
+  return writer.toBytes();
+}
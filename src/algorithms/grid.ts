@@ -0,0 +1,60 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Dimensions of a grid, all a maze generator needs to know
+export interface GridSize {
+  cols: number;
+  rows: number;
+}
+
+// Read-only view of a grid that the search algorithms run on
+export interface Grid extends GridSize {
+  // Whether (x, y) can be entered; false for cells outside the grid
+  isWalkable(x: number, y: number): boolean;
+  // Cost of moving onto (x, y), 1 for plain passages
+  getCost(x: number, y: number): number;
+}
+
+export function isInBounds(size: GridSize, x: number, y: number): boolean {
+  return x >= 0 && y >= 0 && x < size.cols && y < size.rows;
+}
+
+// Wraps cell lookups into a grid, adding the bounds check
+export function createGrid(
+  size: GridSize,
+  isOpen: (x: number, y: number) => boolean,
+  getCost: (x: number, y: number) => number = () => 1
+): Grid {
+  return {
+    cols: size.cols,
+    rows: size.rows,
+    isWalkable: (x, y) => isInBounds(size, x, y) && isOpen(x, y),
+    getCost,
+  };
+}
+
+// A rows x cols array of arrays filled with `value`
+export function createMatrix<T>(size: GridSize, value: T): T[][] {
+  return Array.from({ length: size.rows }, () =>
+    Array.from({ length: size.cols }, () => value)
+  );
+}
+
+// Walks the predecessors back from `target`, returning source ... target
+export function tracePath(
+  source: Point,
+  target: Point,
+  predecessors: Array<Array<Point | null>>
+): Point[] {
+  const path: Point[] = [];
+  let current: Point | null = target;
+
+  while (current != null) {
+    path.push(current);
+    if (current.x === source.x && current.y === source.y) break;
+    current = predecessors[current.y][current.x];
+  }
+  return path.reverse();
+}
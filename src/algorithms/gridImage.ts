@@ -0,0 +1,52 @@
+// Upscales offered for exported images and animations
+export const exportScales = [1, 2, 4, 8, 16, 32];
+
+// Longest side an exported image may have, below what browsers can draw
+export const maxExportSide = 8192;
+
+// Scales that keep a cols × rows grid within maxExportSide
+export function getExportScales(cols: number, rows: number): number[] {
+  return exportScales.filter(
+    (scale) => Math.max(cols, rows) * scale <= maxExportSide
+  );
+}
+
+// The largest scale that still fits the grid in about 1000 pixels
+export function getDefaultExportScale(cols: number, rows: number): number {
+  const scales = getExportScales(cols, rows);
+  return (
+    [...scales]
+      .reverse()
+      .find((scale) => Math.max(cols, rows) * scale <= 1024) ??
+    scales[0] ??
+    1
+  );
+}
+
+function toHex(value: number): string {
+  return value.toString(16).padStart(2, "0");
+}
+
+// An SVG of the grid with one rect per cell, from RGBA pixels of one cell each
+export function gridPixelsToSvg(
+  pixels: Uint8ClampedArray,
+  cols: number,
+  rows: number,
+  scale: number
+): string {
+  const rects: string[] = [];
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const i = (y * cols + x) * 4;
+      const fill = `#${toHex(pixels[i])}${toHex(pixels[i + 1])}${toHex(pixels[i + 2])}`;
+      rects.push(
+        `<rect x="${x}" y="${y}" width="1" height="1" fill="${fill}"/>`
+      );
+    }
+  }
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${cols * scale}" height="${rows * scale}" viewBox="0 0 ${cols} ${rows}" shape-rendering="crispEdges">`,
+    ...rects,
+    "</svg>",
+  ].join("\n");
+}
@@ -0,0 +1,27 @@
+import { GridSize, isInBounds, Point } from "./grid";
+
+// Walls, terrain and endpoints of a grid, enough to draw it again elsewhere
+export interface GridLayout extends GridSize {
+  // Cost of moving onto each cell, row by row, with 0 for walls
+  costs: number[][];
+  source: Point | null;
+  target: Point | null;
+}
+
+// The layout cropped or extended to `size` from its top-left corner, with new
+// cells as plain passages and endpoints that no longer fit dropped
+export function resizeLayout(layout: GridLayout, size: GridSize): GridLayout {
+  const costs = Array.from({ length: size.rows }, (_, y) =>
+    Array.from({ length: size.cols }, (_, x) => layout.costs[y]?.[x] ?? 1)
+  );
+  function keep(point: Point | null): Point | null {
+    return point != null && isInBounds(size, point.x, point.y) ? point : null;
+  }
+  return {
+    cols: size.cols,
+    rows: size.rows,
+    costs,
+    source: keep(layout.source),
+    target: keep(layout.target),
+  };
+}
@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import { AlgorithmEvent } from "./algorithmEvents";
+import { createGrid, createMatrix, Grid, Point } from "./grid";
+import { createSearch, SearchOptions } from "./gridSearch";
+import { getNeighbors, Movement } from "./movement";
+import { createSeededRandom } from "./random";
+
+const cardinal: Movement = { model: "cardinal", cornerCutting: "forbid" };
+const octileForbid: Movement = { model: "octile", cornerCutting: "forbid" };
+const octileAllow: Movement = { model: "octile", cornerCutting: "allow" };
+
+// A grid with about a quarter of its cells walled off, and costs of 1 to 5
+// elsewhere when weighted
+function createRandomCosts(
+  size: number,
+  seed: number,
+  weighted: boolean
+): number[][] {
+  const random = createSeededRandom(seed);
+  return Array.from({ length: size }, () =>
+    Array.from({ length: size }, () => {
+      if (random() < 0.25) return 0;
+      return weighted ? 1 + Math.floor(random() * 5) : 1;
+    })
+  );
+}
+
+function toGrid(costs: number[][]): Grid {
+  return createGrid(
+    { cols: costs[0].length, rows: costs.length },
+    (x, y) => costs[y][x] !== 0,
+    (x, y) => costs[y][x]
+  );
+}
+
+// Cheapest cost of every cell from `source` by Bellman-Ford relaxation,
+// independent of the queue the searches use
+function getReferenceCosts(
+  grid: Grid,
+  source: Point,
+  movement: Movement
+): number[][] {
+  const costs = createMatrix(grid, Number.POSITIVE_INFINITY);
+  costs[source.y][source.x] = 0;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let y = 0; y < grid.rows; y++) {
+      for (let x = 0; x < grid.cols; x++) {
+        if (costs[y][x] === Number.POSITIVE_INFINITY) continue;
+        for (const n of getNeighbors(x, y, movement, grid.isWalkable)) {
+          const cost = costs[y][x] + n.distance * grid.getCost(n.x, n.y);
+          if (cost < costs[n.y][n.x] - 1e-9) {
+            costs[n.y][n.x] = cost;
+            changed = true;
+          }
+        }
+      }
+    }
+  }
+  return costs;
+}
+
+// Runs the search to its end, returning its last path or unreachable event
+function runSearch(
+  grid: Grid,
+  source: Point,
+  target: Point,
+  options: Partial<SearchOptions>
+): AlgorithmEvent | undefined {
+  const { steps } = createSearch(grid, source, target, options);
+  let outcome: AlgorithmEvent | undefined;
+  for (const step of steps) {
+    for (const event of step) {
+      if (event.type === "path" || event.type === "unreachable") {
+        outcome = event;
+      }
+    }
+  }
+  return outcome;
+}
+
+// Every move of the path is one the movement allows, and the moves add up to
+// the reported cost
+function expectValidPath(
+  grid: Grid,
+  movement: Movement,
+  path: Point[],
+  cost: number
+): void {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) {
+    const { x, y } = path[i - 1];
+    const move = getNeighbors(x, y, movement, grid.isWalkable).find(
+      (n) => n.x === path[i].x && n.y === path[i].y
+    );
+    expect(move).toBeDefined();
+    total += move!.distance * grid.getCost(path[i].x, path[i].y);
+  }
+  expect(total).toBeCloseTo(cost, 6);
+}
+
+// Checks the search against the reference on a few random grids, between
+// every pair of far corners that are open
+function expectOptimal(
+  options: Partial<SearchOptions> & { movement: Movement },
+  weighted: boolean
+): void {
+  const size = 16;
+  for (let seed = 1; seed <= 8; seed++) {
+    const costs = createRandomCosts(size, seed, weighted);
+    const source = { x: 0, y: 0 };
+    const target = { x: size - 1, y: size - 1 };
+    costs[source.y][source.x] = 1;
+    costs[target.y][target.x] = 1;
+    const grid = toGrid(costs);
+    const expected = getReferenceCosts(grid, source, options.movement)[
+      target.y
+    ][target.x];
+
+    const outcome = runSearch(grid, source, target, options);
+    if (expected === Number.POSITIVE_INFINITY) {
+      expect(outcome?.type).toBe("unreachable");
+      continue;
+    }
+    if (outcome?.type !== "path") {
+      throw new Error(`No path found on the grid of seed ${seed}`);
+    }
+    expect(outcome.cost).toBeCloseTo(expected, 6);
+    expect(outcome.path[0]).toEqual(source);
+    expect(outcome.path[outcome.path.length - 1]).toEqual(target);
+    expectValidPath(grid, options.movement, outcome.path, outcome.cost);
+  }
+}
+
+describe("createSearch", () => {
+  for (const [name, movement] of [
+    ["cardinal", cardinal],
+    ["octile without corner cutting", octileForbid],
+    ["octile with corner cutting", octileAllow],
+  ] as const) {
+    describe(`with ${name} movement`, () => {
+      it("finds the cheapest path with Dijkstra", () => {
+        expectOptimal({ algorithm: "dijkstra", movement }, true);
+      });
+
+      it("finds the cheapest path with A* and an admissible heuristic", () => {
+        const heuristic =
+          movement.model === "cardinal" ? "manhattan" : "octile";
+        expectOptimal({ algorithm: "astar", movement, heuristic }, true);
+      });
+
+      it("finds the cheapest path with bidirectional Dijkstra", () => {
+        expectOptimal({ algorithm: "biDijkstra", movement }, true);
+      });
+
+      it("finds the shortest path with jump point search", () => {
+        const heuristic =
+          movement.model === "cardinal" ? "manhattan" : "octile";
+        expectOptimal({ algorithm: "jps", movement, heuristic }, false);
+      });
+    });
+  }
+
+  it("reports the cells the source can reach when the target is walled in", () => {
+    const costs = [
+      [1, 1, 0, 1],
+      [1, 1, 0, 1],
+      [0, 0, 0, 1],
+      [1, 1, 1, 1],
+    ];
+    const outcome = runSearch(
+      toGrid(costs),
+      { x: 0, y: 0 },
+      { x: 3, y: 3 },
+      { algorithm: "dijkstra", movement: octileAllow }
+    );
+    expect(outcome?.type).toBe("unreachable");
+    if (outcome?.type !== "unreachable") return;
+    expect(outcome.reachable).toHaveLength(4);
+  });
+});
@@ -0,0 +1,466 @@
+import { AlgorithmEvent, AlgorithmStep, phaseEvent } from "./algorithmEvents";
+import { createMatrix, Grid, Point, tracePath } from "./grid";
+import { estimateDistance, HeuristicName, heuristics } from "./heuristics";
+import { createIndexedHeap, IndexedHeap } from "./indexedHeap";
+import { findJumpPointSuccessors, getJumpLine } from "./jumpPointSearch";
+import {
+  defaultMovement,
+  getNeighbors,
+  getReachableCells,
+  Movement,
+} from "./movement";
+
+export type SearchAlgorithm =
+  | "dijkstra"
+  | "astar"
+  | "bfs"
+  | "dfs"
+  | "greedy"
+  | "biDijkstra"
+  | "biBfs"
+  | "jps";
+
+export const algorithmLabels: Record<SearchAlgorithm, string> = {
+  dijkstra: "Dijkstra",
+  astar: "A*",
+  bfs: "BFS",
+  dfs: "DFS",
+  greedy: "Greedy Best-First",
+  biDijkstra: "Bidirectional Dijkstra",
+  biBfs: "Bidirectional BFS",
+  jps: "Jump Point Search",
+};
+
+// Algorithms that order their queue with a heuristic
+export const informedAlgorithms: SearchAlgorithm[] = ["astar", "greedy", "jps"];
+
+// Algorithms that grow a second frontier from the target
+export const bidirectionalAlgorithms: SearchAlgorithm[] = [
+  "biDijkstra",
+  "biBfs",
+];
+
+export interface SearchOptions {
+  algorithm: SearchAlgorithm;
+  movement: Movement;
+  heuristic: HeuristicName;
+  // Weight of the heuristic in A*, above 1 trading optimality for speed
+  heuristicWeight: number;
+}
+
+export const defaultSearchOptions: SearchOptions = {
+  algorithm: "dijkstra",
+  movement: defaultMovement,
+  heuristic: "manhattan",
+  heuristicWeight: 1,
+};
+
+export interface QueueItem extends Point {
+  dist: number;
+  priority: number;
+}
+
+// Distances, predecessors and queue of a frontier grown from one cell
+export interface SearchFrontier {
+  distances: number[][];
+  visited: boolean[][];
+  predecessors: Array<Array<Point | null>>;
+  queue: IndexedHeap<QueueItem>;
+}
+
+// Cost so far, estimated remaining cost and queue priority of a cell
+export interface CellCosts {
+  g: number;
+  h: number;
+  f: number;
+}
+
+export interface Search {
+  forward: SearchFrontier;
+  // The frontier grown from the target by bidirectional algorithms
+  reverse: SearchFrontier | null;
+  // Null for algorithms that do not order their queue with a heuristic
+  getCosts(x: number, y: number): CellCosts | null;
+  // Every step expands one cell, until a final step reports the outcome
+  steps: Generator<AlgorithmStep, void>;
+}
+
+export function createSearch(
+  grid: Grid,
+  source: Point,
+  target: Point,
+  options: Partial<SearchOptions> = {}
+): Search {
+  const { algorithm, movement, heuristic, heuristicWeight } = {
+    ...defaultSearchOptions,
+    ...options,
+  };
+  let sequence = 0;
+
+  // Queue priority of a cell: its distance for Dijkstra, f = g + w * h for A*
+  // and only the estimate h for greedy best-first search. BFS and DFS number
+  // their entries in insertion order to get first-in/last-in first out.
+  function getPriority(x: number, y: number, dist: number): number {
+    switch (algorithm) {
+      case "bfs":
+      case "biBfs":
+        return ++sequence;
+      case "dfs":
+        return -++sequence;
+      case "astar":
+        return (
+          dist + heuristicWeight * estimateDistance(heuristic, { x, y }, target)
+        );
+      case "greedy":
+        return estimateDistance(heuristic, { x, y }, target);
+      case "jps":
+        return dist + estimateDistance(heuristic, { x, y }, target);
+      default:
+        return dist;
+    }
+  }
+
+  // Whether a newly found route to a cell replaces what is already recorded.
+  // BFS and greedy search keep the first discovery, DFS follows the most
+  // recent one, Dijkstra and A* keep the shortest distance.
+  function shouldRelax(
+    distances: number[][],
+    x: number,
+    y: number,
+    newDist: number
+  ): boolean {
+    switch (algorithm) {
+      case "bfs":
+      case "biBfs":
+      case "greedy":
+        return distances[y][x] === Number.POSITIVE_INFINITY;
+      case "dfs":
+        return true;
+      default:
+        return newDist < distances[y][x];
+    }
+  }
+
+  function createFrontier(start: Point): SearchFrontier {
+    const frontier: SearchFrontier = {
+      distances: createMatrix(grid, Number.POSITIVE_INFINITY),
+      visited: createMatrix(grid, false),
+      predecessors: createMatrix<Point | null>(grid, null),
+      // Ordered by priority, preferring the deeper node on ties so A* heads
+      // straight for the target. Entries are keyed by cell, so finding a
+      // shorter route lowers the existing entry instead of adding another.
+      queue: createIndexedHeap<QueueItem>(
+        (a, b) => a.priority - b.priority || b.dist - a.dist,
+        ({ x, y }) => y * grid.cols + x
+      ),
+    };
+    frontier.distances[start.y][start.x] = 0;
+    frontier.predecessors[start.y][start.x] = start;
+    frontier.queue.push({
+      x: start.x,
+      y: start.y,
+      dist: 0,
+      priority: getPriority(start.x, start.y, 0),
+    });
+    return frontier;
+  }
+
+  function getUnreachableEvent(): AlgorithmEvent {
+    return {
+      type: "unreachable",
+      reachable: getReachableCells(source, movement, grid.isWalkable),
+    };
+  }
+
+  /* ==== DIJKSTRA, A*, BFS, DFS AND GREEDY SEARCH ==== */
+  function* bestFirstSteps(
+    forward: SearchFrontier
+  ): Generator<AlgorithmStep, void> {
+    const { distances, visited, predecessors, queue } = forward;
+
+    while (queue.size > 0) {
+      const { x, y } = queue.pop()!;
+      if (visited[y][x]) continue;
+      visited[y][x] = true;
+      const events: AlgorithmEvent[] = [
+        phaseEvent("pop"),
+        phaseEvent("visit"),
+        { type: "visit", x, y },
+      ];
+
+      if (x === target.x && y === target.y) {
+        events.push(phaseEvent("found"), {
+          type: "path",
+          path: tracePath(source, target, predecessors),
+          cost: distances[y][x],
+        });
+        yield events;
+        return;
+      }
+
+      for (const { x: nx, y: ny, distance } of getNeighbors(
+        x,
+        y,
+        movement,
+        grid.isWalkable
+      )) {
+        if (visited[ny][nx]) continue;
+        const newDist = distances[y][x] + distance * grid.getCost(nx, ny);
+        events.push(phaseEvent("relax"));
+
+        // Update distances if the algorithm accepts the new route
+        if (shouldRelax(distances, nx, ny, newDist)) {
+          distances[ny][nx] = newDist;
+          predecessors[ny][nx] = { x, y };
+          queue.push({
+            x: nx,
+            y: ny,
+            dist: newDist,
+            priority: getPriority(nx, ny, newDist),
+          });
+          events.push(phaseEvent("push"), {
+            type: "frontier",
+            x: nx,
+            y: ny,
+            dist: newDist,
+          });
+        }
+      }
+      yield events;
+    }
+
+    // An exhausted queue means the target cannot be reached
+    yield [phaseEvent("unreachable"), getUnreachableEvent()];
+  }
+
+  /* ==== BIDIRECTIONAL SEARCH ==== */
+  function* bidirectionalSteps(
+    forward: SearchFrontier,
+    reverse: SearchFrontier
+  ): Generator<AlgorithmStep, void> {
+    let expandForward = true;
+    let meetingPoint: Point | null = null;
+    let bestMeetingCost = Number.POSITIVE_INFINITY;
+
+    function updateMeetingPoint(x: number, y: number, cost: number): void {
+      if (cost < bestMeetingCost) {
+        bestMeetingCost = cost;
+        meetingPoint = { x, y };
+      }
+    }
+
+    function getMinQueueDistance(queue: IndexedHeap<QueueItem>): number {
+      return queue.peek()?.dist ?? Number.POSITIVE_INFINITY;
+    }
+
+    while (true) {
+      // A frontier that runs dry before meeting the other one proves the
+      // target unreachable
+      if (
+        meetingPoint == null &&
+        (forward.queue.size === 0 || reverse.queue.size === 0)
+      ) {
+        yield [phaseEvent("unreachable"), getUnreachableEvent()];
+        return;
+      }
+
+      // Stop once no pair of frontier nodes can beat the best meeting point
+      if (
+        meetingPoint != null &&
+        getMinQueueDistance(forward.queue) +
+          getMinQueueDistance(reverse.queue) >=
+          bestMeetingCost
+      ) {
+        break;
+      }
+
+      // Alternate between the two frontiers, skipping one that ran dry
+      let isForward: boolean = expandForward;
+      if ((isForward ? forward : reverse).queue.size === 0) {
+        isForward = !isForward;
+      }
+      expandForward = !isForward;
+
+      const { distances, visited, predecessors, queue } = isForward
+        ? forward
+        : reverse;
+      const otherDistances = (isForward ? reverse : forward).distances;
+
+      const current = queue.pop();
+      if (current === undefined) continue;
+
+      const { x, y } = current;
+      if (visited[y][x]) continue;
+      visited[y][x] = true;
+      const events: AlgorithmEvent[] = [
+        phaseEvent("pop"),
+        phaseEvent("visit"),
+        { type: "visit", x, y, direction: isForward ? "forward" : "reverse" },
+        phaseEvent("meet"),
+      ];
+      updateMeetingPoint(x, y, distances[y][x] + otherDistances[y][x]);
+
+      for (const { x: nx, y: ny, distance } of getNeighbors(
+        x,
+        y,
+        movement,
+        grid.isWalkable
+      )) {
+        if (visited[ny][nx]) continue;
+
+        // The reverse frontier walks edges backwards, so the move it stands
+        // for enters the current cell instead of the neighbor
+        const newDist =
+          distances[y][x] +
+          distance * (isForward ? grid.getCost(nx, ny) : grid.getCost(x, y));
+        events.push(phaseEvent("relax"));
+
+        if (shouldRelax(distances, nx, ny, newDist)) {
+          distances[ny][nx] = newDist;
+          predecessors[ny][nx] = { x, y };
+          queue.push({
+            x: nx,
+            y: ny,
+            dist: newDist,
+            priority: getPriority(nx, ny, newDist),
+          });
+          events.push(phaseEvent("push"), {
+            type: "frontier",
+            x: nx,
+            y: ny,
+            dist: newDist,
+          });
+        }
+        updateMeetingPoint(nx, ny, distances[ny][nx] + otherDistances[ny][nx]);
+      }
+      yield events;
+    }
+
+    // Stitch the two halves together at the meeting point
+    const meeting: Point = meetingPoint;
+    const forwardHalf = tracePath(source, meeting, forward.predecessors);
+    const reverseHalf = tracePath(target, meeting, reverse.predecessors);
+    yield [
+      phaseEvent("found"),
+      {
+        type: "path",
+        path: [...forwardHalf, ...reverseHalf.reverse().slice(1)],
+        cost: bestMeetingCost,
+        meetingPoint: meeting,
+      },
+    ];
+  }
+
+  /* ==== JUMP POINT SEARCH ==== */
+  function* jumpPointSteps(
+    forward: SearchFrontier
+  ): Generator<AlgorithmStep, void> {
+    const { distances, visited, predecessors, queue } = forward;
+
+    while (queue.size > 0) {
+      const { x, y } = queue.pop()!;
+      if (visited[y][x]) continue;
+      visited[y][x] = true;
+      const events: AlgorithmEvent[] = [
+        phaseEvent("pop"),
+        phaseEvent("visit"),
+        { type: "visit", x, y },
+      ];
+
+      if (x === target.x && y === target.y) {
+        events.push(phaseEvent("found"), getJumpPointPathEvent(predecessors));
+        yield events;
+        return;
+      }
+
+      // The direction we arrived from prunes the neighbors worth jumping to
+      const parent =
+        x === source.x && y === source.y ? null : predecessors[y][x];
+      events.push(phaseEvent("prune"));
+
+      for (const jumpPoint of findJumpPointSuccessors(
+        x,
+        y,
+        parent,
+        movement,
+        grid.isWalkable,
+        target
+      )) {
+        const { x: jx, y: jy } = jumpPoint;
+        if (visited[jy][jx]) continue;
+        events.push(phaseEvent("jump"));
+
+        // Jump points are compared on the uniform-cost grid
+        const newDist =
+          distances[y][x] +
+          heuristics.octile(Math.abs(jx - x), Math.abs(jy - y));
+        if (newDist >= distances[jy][jx]) continue;
+
+        distances[jy][jx] = newDist;
+        predecessors[jy][jx] = { x, y };
+        queue.push({
+          x: jx,
+          y: jy,
+          dist: newDist,
+          priority: getPriority(jx, jy, newDist),
+        });
+        events.push({ type: "jump", from: { x, y }, to: jumpPoint });
+        events.push(phaseEvent("push"), {
+          type: "frontier",
+          x: jx,
+          y: jy,
+          dist: newDist,
+        });
+      }
+      yield events;
+    }
+
+    yield [phaseEvent("unreachable"), getUnreachableEvent()];
+  }
+
+  function getJumpPointPathEvent(
+    predecessors: Array<Array<Point | null>>
+  ): AlgorithmEvent {
+    // Fill in the cells along the jumps between consecutive jump points
+    const jumpPoints = tracePath(source, target, predecessors);
+    const path: Point[] = [source];
+    for (let i = 0; i < jumpPoints.length - 1; i++) {
+      path.push(...getJumpLine(jumpPoints[i], jumpPoints[i + 1]));
+    }
+
+    // JPS ignores terrain while searching, so price the path afterwards
+    let cost = 0;
+    for (let i = 1; i < path.length; i++) {
+      const { x, y } = path[i];
+      const previous = path[i - 1];
+      const distance = x !== previous.x && y !== previous.y ? Math.SQRT2 : 1;
+      cost += distance * grid.getCost(x, y);
+    }
+    return { type: "path", path, cost };
+  }
+
+  const forward = createFrontier(source);
+  const reverse = bidirectionalAlgorithms.includes(algorithm)
+    ? createFrontier(target)
+    : null;
+
+  let steps: Generator<AlgorithmStep, void>;
+  if (reverse != null) {
+    steps = bidirectionalSteps(forward, reverse);
+  } else if (algorithm === "jps") {
+    steps = jumpPointSteps(forward);
+  } else {
+    steps = bestFirstSteps(forward);
+  }
+  function getCosts(x: number, y: number): CellCosts | null {
+    if (!informedAlgorithms.includes(algorithm)) return null;
+    const g = forward.distances[y][x];
+    return {
+      g,
+      h: estimateDistance(heuristic, { x, y }, target),
+      f: getPriority(x, y, g),
+    };
+  }
+
+  return { forward, reverse, getCosts, steps };
+}
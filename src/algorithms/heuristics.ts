@@ -0,0 +1,36 @@
+export type HeuristicName =
+  | "manhattan"
+  | "euclidean"
+  | "chebyshev"
+  | "octile"
+  | "zero";
+
+// Distance estimates between two cells, given the absolute offsets dx and dy
+export const heuristics: Record<HeuristicName, (dx: number, dy: number) => number> =
+  {
+    manhattan: (dx, dy) => dx + dy,
+    euclidean: (dx, dy) => Math.sqrt(dx * dx + dy * dy),
+    chebyshev: (dx, dy) => Math.max(dx, dy),
+    octile: (dx, dy) =>
+      Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy),
+    zero: () => 0,
+  };
+
+export const heuristicLabels: Record<HeuristicName, string> = {
+  manhattan: "Manhattan",
+  euclidean: "Euclidean",
+  chebyshev: "Chebyshev",
+  octile: "Octile",
+  zero: "Zero",
+};
+
+export function estimateDistance(
+  heuristic: HeuristicName,
+  from: { x: number; y: number },
+  to: { x: number; y: number }
+): number {
+  return heuristics[heuristic](
+    Math.abs(from.x - to.x),
+    Math.abs(from.y - to.y)
+  );
+}
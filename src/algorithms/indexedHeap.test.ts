@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { createIndexedHeap } from "./indexedHeap";
+
+interface Entry {
+  key: number;
+  value: number;
+}
+
+function createHeap() {
+  return createIndexedHeap<Entry>(
+    (a, b) => a.value - b.value,
+    ({ key }) => key
+  );
+}
+
+// A linear congruential generator, so that every run uses the same values
+function createValues(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state % 1000;
+  };
+}
+
+function popAll(heap: ReturnType<typeof createHeap>): Entry[] {
+  const entries: Entry[] = [];
+  while (heap.size > 0) entries.push(heap.pop()!);
+  return entries;
+}
+
+describe("createIndexedHeap", () => {
+  it("pops entries in order after their keys are decreased", () => {
+    const nextValue = createValues(7);
+    const heap = createHeap();
+    const values = new Map<number, number>();
+    for (let key = 0; key < 200; key++) {
+      const value = nextValue();
+      heap.push({ key, value });
+      values.set(key, value);
+    }
+    for (let i = 0; i < 300; i++) {
+      const key = nextValue() % 200;
+      const value = nextValue();
+      const lowered = heap.decreaseKey({ key, value });
+      expect(lowered).toBe(value < values.get(key)!);
+      if (lowered) values.set(key, value);
+    }
+
+    const popped = popAll(heap);
+    expect(popped).toHaveLength(200);
+    expect(popped.map(({ value }) => value)).toEqual(
+      [...values.values()].sort((a, b) => a - b)
+    );
+    for (const { key, value } of popped) expect(value).toBe(values.get(key));
+  });
+
+  it("keeps one entry per key, ignoring larger pushes", () => {
+    const heap = createHeap();
+    expect(heap.push({ key: 1, value: 5 })).toBe(true);
+    expect(heap.push({ key: 1, value: 8 })).toBe(false);
+    expect(heap.push({ key: 1, value: 2 })).toBe(true);
+    expect(heap.size).toBe(1);
+    expect(heap.get(1)).toEqual({ key: 1, value: 2 });
+    expect(heap.pop()).toEqual({ key: 1, value: 2 });
+    expect(heap.has(1)).toBe(false);
+  });
+
+  it("peeks at the smallest entries in pop order without popping them", () => {
+    const nextValue = createValues(3);
+    const heap = createHeap();
+    for (let key = 0; key < 100; key++) {
+      heap.push({ key, value: nextValue() % 50 });
+    }
+    const smallest = heap.peekSmallest(30);
+    expect(heap.size).toBe(100);
+    expect(heap.peekSmallest(500)).toHaveLength(100);
+
+    const popped = popAll(heap);
+    expect(smallest.map(({ value }) => value)).toEqual(
+      popped.slice(0, 30).map(({ value }) => value)
+    );
+    expect(heap.peekSmallest(5)).toEqual([]);
+  });
+});
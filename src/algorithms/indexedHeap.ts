@@ -0,0 +1,128 @@
+// Binary min-heap whose entries are addressed by a numeric key (for grids,
+// the cell index y * cols + x), so an entry's priority can be lowered in place
+export interface IndexedHeap<T> {
+  readonly size: number;
+  has(key: number): boolean;
+  get(key: number): T | undefined;
+  peek(): T | undefined;
+  // Adds the item, or lowers the entry with the same key if the item is smaller
+  push(item: T): boolean;
+  // Replaces the entry with the same key if the item is smaller
+  decreaseKey(item: T): boolean;
+  pop(): T | undefined;
+  clear(): void;
+  // The first `count` entries in pop order, without modifying the heap
+  peekSmallest(count: number): T[];
+}
+
+export function createIndexedHeap<T>(
+  compare: (a: T, b: T) => number,
+  getKey: (item: T) => number
+): IndexedHeap<T> {
+  const heap: T[] = [];
+  const positions = new Map<number, number>();
+
+  function place(item: T, index: number): void {
+    heap[index] = item;
+    positions.set(getKey(item), index);
+  }
+
+  function siftUp(index: number): void {
+    const item = heap[index];
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+      const parent = heap[parentIndex];
+      if (compare(item, parent) >= 0) break;
+      place(parent, index);
+      index = parentIndex;
+    }
+    place(item, index);
+  }
+
+  function siftDown(index: number): void {
+    const item = heap[index];
+    const length = heap.length;
+    while (true) {
+      const left = 2 * index + 1;
+      if (left >= length) break;
+      const right = left + 1;
+      const child =
+        right < length && compare(heap[right], heap[left]) < 0 ? right : left;
+      if (compare(heap[child], item) >= 0) break;
+      place(heap[child], index);
+      index = child;
+    }
+    place(item, index);
+  }
+
+  function decreaseKey(item: T): boolean {
+    const index = positions.get(getKey(item));
+    if (index === undefined || compare(item, heap[index]) >= 0) return false;
+    heap[index] = item;
+    siftUp(index);
+    return true;
+  }
+
+  return {
+    get size() {
+      return heap.length;
+    },
+
+    has: (key) => positions.has(key),
+
+    get(key) {
+      const index = positions.get(key);
+      return index === undefined ? undefined : heap[index];
+    },
+
+    peek: () => heap[0],
+
+    push(item) {
+      if (positions.has(getKey(item))) return decreaseKey(item);
+      heap.push(item);
+      siftUp(heap.length - 1);
+      return true;
+    },
+
+    decreaseKey,
+
+    pop() {
+      const top = heap[0];
+      if (top === undefined) return undefined;
+      positions.delete(getKey(top));
+
+      const last = heap.pop()!;
+      if (heap.length > 0) {
+        heap[0] = last;
+        siftDown(0);
+      }
+      return top;
+    },
+
+    clear() {
+      heap.length = 0;
+      positions.clear();
+    },
+
+    // A parent is never larger than its children, so walking down from the
+    // root and always taking the smallest entry reached lists them in order
+    peekSmallest(count) {
+      const smallest: T[] = [];
+      // Heap indices still to take, largest entry first
+      const candidates = heap.length > 0 ? [0] : [];
+      while (smallest.length < count && candidates.length > 0) {
+        const index = candidates.pop()!;
+        smallest.push(heap[index]);
+        for (const child of [2 * index + 1, 2 * index + 2]) {
+          if (child >= heap.length) continue;
+          let i = candidates.length;
+          while (i > 0 && compare(heap[candidates[i - 1]], heap[child]) < 0) {
+            i--;
+          }
+          candidates.splice(i, 0, child);
+        }
+      }
+      return smallest;
+    },
+  };
+}
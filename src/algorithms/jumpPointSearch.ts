@@ -0,0 +1,262 @@
+import { Point } from "./grid";
+import { getNeighbors, Movement } from "./movement";
+
+export interface JumpPoint extends Point {
+  // Neighbors that made this cell a jump point, if any
+  forcedNeighbors: Point[];
+}
+
+type IsWalkable = (x: number, y: number) => boolean;
+
+// Neighbors worth jumping towards from (x, y) once the direction of travel
+// from `parent` is known. The start cell has no parent and keeps them all.
+function getPrunedNeighbors(
+  x: number,
+  y: number,
+  parent: Point | null,
+  movement: Movement,
+  isWalkable: IsWalkable
+): Point[] {
+  if (parent == null) return getNeighbors(x, y, movement, isWalkable);
+
+  const dx = Math.sign(x - parent.x);
+  const dy = Math.sign(y - parent.y);
+  const neighbors: Point[] = [];
+  const add = (nx: number, ny: number): void => {
+    if (isWalkable(nx, ny)) neighbors.push({ x: nx, y: ny });
+  };
+
+  if (movement.model === "cardinal") {
+    // Straight moves may turn sideways at every cell
+    if (dx !== 0) {
+      add(x, y - 1);
+      add(x, y + 1);
+      add(x + dx, y);
+    } else {
+      add(x - 1, y);
+      add(x + 1, y);
+      add(x, y + dy);
+    }
+  } else if (movement.cornerCutting === "forbid") {
+    if (dx !== 0 && dy !== 0) {
+      const verticalOpen = isWalkable(x, y + dy);
+      const horizontalOpen = isWalkable(x + dx, y);
+      if (verticalOpen) add(x, y + dy);
+      if (horizontalOpen) add(x + dx, y);
+      if (verticalOpen && horizontalOpen) add(x + dx, y + dy);
+    } else if (dx !== 0) {
+      const topOpen = isWalkable(x, y - 1);
+      const bottomOpen = isWalkable(x, y + 1);
+      if (isWalkable(x + dx, y)) {
+        add(x + dx, y);
+        if (topOpen) add(x + dx, y - 1);
+        if (bottomOpen) add(x + dx, y + 1);
+      }
+      if (topOpen) add(x, y - 1);
+      if (bottomOpen) add(x, y + 1);
+    } else {
+      const leftOpen = isWalkable(x - 1, y);
+      const rightOpen = isWalkable(x + 1, y);
+      if (isWalkable(x, y + dy)) {
+        add(x, y + dy);
+        if (leftOpen) add(x - 1, y + dy);
+        if (rightOpen) add(x + 1, y + dy);
+      }
+      if (leftOpen) add(x - 1, y);
+      if (rightOpen) add(x + 1, y);
+    }
+  } else {
+    if (dx !== 0 && dy !== 0) {
+      const verticalOpen = isWalkable(x, y + dy);
+      const horizontalOpen = isWalkable(x + dx, y);
+      if (verticalOpen) add(x, y + dy);
+      if (horizontalOpen) add(x + dx, y);
+      if (verticalOpen || horizontalOpen) add(x + dx, y + dy);
+      if (!isWalkable(x - dx, y) && verticalOpen) add(x - dx, y + dy);
+      if (!isWalkable(x, y - dy) && horizontalOpen) add(x + dx, y - dy);
+    } else if (dx !== 0) {
+      if (isWalkable(x + dx, y)) {
+        add(x + dx, y);
+        if (!isWalkable(x, y - 1)) add(x + dx, y - 1);
+        if (!isWalkable(x, y + 1)) add(x + dx, y + 1);
+      }
+    } else {
+      if (isWalkable(x, y + dy)) {
+        add(x, y + dy);
+        if (!isWalkable(x - 1, y)) add(x - 1, y + dy);
+        if (!isWalkable(x + 1, y)) add(x + 1, y + dy);
+      }
+    }
+  }
+
+  return neighbors;
+}
+
+// Neighbors of (x, y) that can only be reached optimally through it when
+// arriving straight along (dx, dy)
+function getStraightForcedNeighbors(
+  x: number,
+  y: number,
+  dx: number,
+  dy: number,
+  movement: Movement,
+  isWalkable: IsWalkable
+): Point[] {
+  const forced: Point[] = [];
+
+  if (movement.model === "octile" && movement.cornerCutting === "allow") {
+    if (dx !== 0) {
+      if (isWalkable(x + dx, y - 1) && !isWalkable(x, y - 1)) {
+        forced.push({ x: x + dx, y: y - 1 });
+      }
+      if (isWalkable(x + dx, y + 1) && !isWalkable(x, y + 1)) {
+        forced.push({ x: x + dx, y: y + 1 });
+      }
+    } else {
+      if (isWalkable(x - 1, y + dy) && !isWalkable(x - 1, y)) {
+        forced.push({ x: x - 1, y: y + dy });
+      }
+      if (isWalkable(x + 1, y + dy) && !isWalkable(x + 1, y)) {
+        forced.push({ x: x + 1, y: y + dy });
+      }
+    }
+    return forced;
+  }
+
+  // Without corner cutting a side opening right after a wall is forced
+  if (dx !== 0) {
+    if (isWalkable(x, y - 1) && !isWalkable(x - dx, y - 1)) {
+      forced.push({ x, y: y - 1 });
+    }
+    if (isWalkable(x, y + 1) && !isWalkable(x - dx, y + 1)) {
+      forced.push({ x, y: y + 1 });
+    }
+  } else {
+    if (isWalkable(x - 1, y) && !isWalkable(x - 1, y - dy)) {
+      forced.push({ x: x - 1, y });
+    }
+    if (isWalkable(x + 1, y) && !isWalkable(x + 1, y - dy)) {
+      forced.push({ x: x + 1, y });
+    }
+  }
+  return forced;
+}
+
+// Moves from `parent` through (x, y) in a fixed direction until reaching the
+// target, a cell with forced neighbors or a dead end (null)
+function jump(
+  x: number,
+  y: number,
+  parent: Point,
+  movement: Movement,
+  isWalkable: IsWalkable,
+  target: Point
+): JumpPoint | null {
+  const dx = x - parent.x;
+  const dy = y - parent.y;
+
+  if (!isWalkable(x, y)) return null;
+  if (x === target.x && y === target.y) return { x, y, forcedNeighbors: [] };
+
+  const current = { x, y };
+
+  if (dx !== 0 && dy !== 0) {
+    if (movement.cornerCutting === "allow") {
+      const forced: Point[] = [];
+      if (isWalkable(x - dx, y + dy) && !isWalkable(x - dx, y)) {
+        forced.push({ x: x - dx, y: y + dy });
+      }
+      if (isWalkable(x + dx, y - dy) && !isWalkable(x, y - dy)) {
+        forced.push({ x: x + dx, y: y - dy });
+      }
+      if (forced.length > 0) return { x, y, forcedNeighbors: forced };
+    }
+
+    // A diagonal move stops where a straight jump would find something
+    if (
+      jump(x + dx, y, current, movement, isWalkable, target) != null ||
+      jump(x, y + dy, current, movement, isWalkable, target) != null
+    ) {
+      return { x, y, forcedNeighbors: [] };
+    }
+  } else {
+    const forced = getStraightForcedNeighbors(
+      x,
+      y,
+      dx,
+      dy,
+      movement,
+      isWalkable
+    );
+    if (forced.length > 0) return { x, y, forcedNeighbors: forced };
+
+    // With 4-way moves a vertical jump stops where a sideways jump would
+    if (
+      movement.model === "cardinal" &&
+      dy !== 0 &&
+      (jump(x + 1, y, current, movement, isWalkable, target) != null ||
+        jump(x - 1, y, current, movement, isWalkable, target) != null)
+    ) {
+      return { x, y, forcedNeighbors: [] };
+    }
+  }
+
+  if (dx !== 0 && dy !== 0) {
+    const horizontalOpen = isWalkable(x + dx, y);
+    const verticalOpen = isWalkable(x, y + dy);
+    const canContinue =
+      movement.cornerCutting === "allow"
+        ? horizontalOpen || verticalOpen
+        : horizontalOpen && verticalOpen;
+    if (!canContinue) return null;
+  }
+
+  return jump(x + dx, y + dy, current, movement, isWalkable, target);
+}
+
+// Jump points reachable from (x, y), the successors expanded by JPS
+export function findJumpPointSuccessors(
+  x: number,
+  y: number,
+  parent: Point | null,
+  movement: Movement,
+  isWalkable: IsWalkable,
+  target: Point
+): JumpPoint[] {
+  const successors: JumpPoint[] = [];
+
+  for (const neighbor of getPrunedNeighbors(
+    x,
+    y,
+    parent,
+    movement,
+    isWalkable
+  )) {
+    const jumpPoint = jump(
+      neighbor.x,
+      neighbor.y,
+      { x, y },
+      movement,
+      isWalkable,
+      target
+    );
+    if (jumpPoint != null) successors.push(jumpPoint);
+  }
+
+  return successors;
+}
+
+// Cells on the straight or diagonal jump from `from` to `to`, excluding `from`
+export function getJumpLine(from: Point, to: Point): Point[] {
+  const dx = Math.sign(to.x - from.x);
+  const dy = Math.sign(to.y - from.y);
+  const cells: Point[] = [];
+
+  let { x, y } = from;
+  while (x !== to.x || y !== to.y) {
+    x += dx;
+    y += dy;
+    cells.push({ x, y });
+  }
+  return cells;
+}
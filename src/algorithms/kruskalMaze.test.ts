@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { createMatrix, GridSize } from "./grid";
+import { createKruskalMaze } from "./kruskalMaze";
+import { getReachableCells } from "./movement";
+import { createSeededRandom } from "./random";
+
+// The passages of the finished maze
+function generate(size: GridSize, seed: number): boolean[][] {
+  const passages = createMatrix(size, false);
+  const maze = createKruskalMaze(size, createSeededRandom(seed));
+  for (const step of maze.steps) {
+    for (const event of step) {
+      if (event.type === "carve") passages[event.y][event.x] = true;
+    }
+  }
+  expect(maze.sets.count).toBe(1);
+  return passages;
+}
+
+describe("createKruskalMaze", () => {
+  it("connects every maze cell without loops", () => {
+    const size = { cols: 15, rows: 11 };
+    const passages = generate(size, 5);
+
+    // Every cell with even coordinates is carved, and a spanning tree over
+    // them removes one wall fewer than there are cells
+    const mazeCells = 8 * 6;
+    const carved = passages.flat().filter(Boolean).length;
+    expect(carved).toBe(2 * mazeCells - 1);
+    const reachable = getReachableCells(
+      { x: 0, y: 0 },
+      { model: "cardinal", cornerCutting: "forbid" },
+      (x, y) => passages[y]?.[x] === true
+    );
+    expect(reachable).toHaveLength(carved);
+  });
+
+  it("builds the same maze from the same seed", () => {
+    const size = { cols: 21, rows: 21 };
+    expect(generate(size, 42)).toEqual(generate(size, 42));
+    expect(generate(size, 42)).not.toEqual(generate(size, 43));
+  });
+});
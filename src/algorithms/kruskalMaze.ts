@@ -0,0 +1,90 @@
+import { AlgorithmEvent, AlgorithmStep, phaseEvent } from "./algorithmEvents";
+import { createDisjointSet, DisjointSet } from "./disjointSet";
+import { createMatrix, GridSize, isInBounds, Point } from "./grid";
+
+export interface KruskalMaze {
+  // Walls between maze cells, removed from the end
+  walls: Point[];
+  // Union-find set each maze cell started in, null for walls
+  groupIds: Array<Array<number | null>>;
+  sets: DisjointSet;
+  // The first step carves every maze cell, every later one removes a wall
+  // between two cells that are not connected yet
+  steps: Generator<AlgorithmStep, void>;
+}
+
+function shuffleArray(array: unknown[], random: () => number): void {
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [array[i], array[j]] = [array[j], array[i]];
+  }
+}
+
+// Randomized Kruskal's algorithm over the cells with even coordinates
+export function createKruskalMaze(
+  size: GridSize,
+  random: () => number = Math.random
+): KruskalMaze {
+  const groupIds = createMatrix<number | null>(size, null);
+  const sets = createDisjointSet();
+  const cells: Point[] = [];
+  const walls: Point[] = [];
+
+  for (let y = 0; y < size.rows; y += 2) {
+    for (let x = 0; x < size.cols; x += 2) {
+      groupIds[y][x] = sets.add();
+      cells.push({ x, y });
+      if (x < size.cols - 1) walls.push({ x: x + 1, y });
+      if (y < size.rows - 1) walls.push({ x, y: y + 1 });
+    }
+  }
+  shuffleArray(walls, random);
+
+  function* steps(): Generator<AlgorithmStep, void> {
+    yield [
+      phaseEvent("init"),
+      ...cells.map(({ x, y }): AlgorithmEvent => ({ type: "carve", x, y })),
+    ];
+
+    // Walls that join no sets are skipped within the step of the next union
+    let events: AlgorithmEvent[] = [];
+    while (walls.length > 0 && sets.count > 1) {
+      const wall = walls.pop()!;
+      events.push(phaseEvent("pickWall"));
+
+      // The cells on either side of the wall
+      const [cellA, cellB] =
+        wall.x % 2 !== 0
+          ? [
+              { x: wall.x - 1, y: wall.y },
+              { x: wall.x + 1, y: wall.y },
+            ]
+          : [
+              { x: wall.x, y: wall.y - 1 },
+              { x: wall.x, y: wall.y + 1 },
+            ];
+      if (
+        !isInBounds(size, cellA.x, cellA.y) ||
+        !isInBounds(size, cellB.x, cellB.y)
+      ) {
+        continue;
+      }
+      events.push(phaseEvent("findSets"));
+
+      const groupA = groupIds[cellA.y][cellA.x];
+      const groupB = groupIds[cellB.y][cellB.x];
+      if (groupA === null || groupB === null || !sets.union(groupA, groupB)) {
+        continue;
+      }
+      events.push(phaseEvent("union"), phaseEvent("carve"), {
+        type: "carve",
+        x: wall.x,
+        y: wall.y,
+      });
+      yield events;
+      events = [];
+    }
+  }
+
+  return { walls, groupIds, sets, steps: steps() };
+}
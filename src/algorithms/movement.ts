@@ -0,0 +1,106 @@
+export type MovementModel = "cardinal" | "octile";
+
+// Whether a diagonal move may pass a blocked orthogonal neighbor
+export type CornerCutting = "allow" | "forbid";
+
+export interface Movement {
+  model: MovementModel;
+  cornerCutting: CornerCutting;
+}
+
+export interface Neighbor {
+  x: number;
+  y: number;
+  // Length of the move: 1 for cardinal steps, √2 for diagonal steps
+  distance: number;
+}
+
+export const defaultMovement: Movement = {
+  model: "cardinal",
+  cornerCutting: "forbid",
+};
+
+// Cardinal directions: left, right, up, down
+export const cardinalDirections = [
+  { dx: -1, dy: 0 },
+  { dx: 1, dy: 0 },
+  { dx: 0, dy: -1 },
+  { dx: 0, dy: 1 },
+];
+
+// Diagonal directions: up-left, up-right, down-left, down-right
+export const diagonalDirections = [
+  { dx: -1, dy: -1 },
+  { dx: 1, dy: -1 },
+  { dx: -1, dy: 1 },
+  { dx: 1, dy: 1 },
+];
+
+// Whether a diagonal move from (x, y) by (dx, dy) respects the corner rule.
+// Squeezing between two blocked cells is never allowed.
+export function canMoveDiagonally(
+  x: number,
+  y: number,
+  dx: number,
+  dy: number,
+  cornerCutting: CornerCutting,
+  isWalkable: (x: number, y: number) => boolean
+): boolean {
+  const horizontalOpen = isWalkable(x + dx, y);
+  const verticalOpen = isWalkable(x, y + dy);
+  return cornerCutting === "allow"
+    ? horizontalOpen || verticalOpen
+    : horizontalOpen && verticalOpen;
+}
+
+// Cells reachable in one move from (x, y). `isWalkable` must return false
+// for cells outside the grid.
+export function getNeighbors(
+  x: number,
+  y: number,
+  movement: Movement,
+  isWalkable: (x: number, y: number) => boolean
+): Neighbor[] {
+  const neighbors: Neighbor[] = [];
+
+  for (const { dx, dy } of cardinalDirections) {
+    if (isWalkable(x + dx, y + dy)) {
+      neighbors.push({ x: x + dx, y: y + dy, distance: 1 });
+    }
+  }
+
+  if (movement.model === "octile") {
+    for (const { dx, dy } of diagonalDirections) {
+      if (
+        isWalkable(x + dx, y + dy) &&
+        canMoveDiagonally(x, y, dx, dy, movement.cornerCutting, isWalkable)
+      ) {
+        neighbors.push({ x: x + dx, y: y + dy, distance: Math.SQRT2 });
+      }
+    }
+  }
+
+  return neighbors;
+}
+
+// Every cell reachable from `start`, found with a breadth-first flood fill
+export function getReachableCells(
+  start: { x: number; y: number },
+  movement: Movement,
+  isWalkable: (x: number, y: number) => boolean
+): Array<{ x: number; y: number }> {
+  const seen = new Set<string>([`${start.x},${start.y}`]);
+  const reachable = [start];
+
+  for (let i = 0; i < reachable.length; i++) {
+    const { x, y } = reachable[i];
+    for (const neighbor of getNeighbors(x, y, movement, isWalkable)) {
+      const key = `${neighbor.x},${neighbor.y}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      reachable.push({ x: neighbor.x, y: neighbor.y });
+    }
+  }
+
+  return reachable;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { parseMovingAiMap, parseMovingAiScenarios } from "./movingAi";
+
+const map = [
+  "type octile",
+  "height 3",
+  "width 4",
+  "map",
+  ".@G.",
+  "T.S.",
+  "..W.",
+].join("\n");
+
+describe("parseMovingAiMap", () => {
+  it("reads passable and blocked terrain", () => {
+    expect(parseMovingAiMap(map)).toEqual({
+      ok: true,
+      layout: {
+        cols: 4,
+        rows: 3,
+        costs: [
+          [1, 0, 1, 1],
+          [0, 1, 1, 1],
+          [1, 1, 0, 1],
+        ],
+        source: null,
+        target: null,
+      },
+    });
+  });
+
+  it("accepts Windows line endings", () => {
+    expect(parseMovingAiMap(map.replace(/\n/g, "\r\n")).ok).toBe(true);
+  });
+
+  it("rejects maps without a header, short rows and unknown terrain", () => {
+    expect(parseMovingAiMap(".@..").ok).toBe(false);
+    expect(parseMovingAiMap(map.replace("T.S.", "T.S")).ok).toBe(false);
+    expect(parseMovingAiMap(map.replace("T.S.", "T.X.")).ok).toBe(false);
+    expect(parseMovingAiMap(map.replace("\n..W.", "")).ok).toBe(false);
+  });
+
+  it("rejects maps larger than a scenario may be", () => {
+    expect(parseMovingAiMap(map.replace("width 4", "width 100000"))).toEqual({
+      ok: false,
+      error: "Grids larger than 1024×1024 are not supported.",
+    });
+  });
+});
+
+describe("parseMovingAiScenarios", () => {
+  it("reads one problem per line", () => {
+    const text = [
+      "version 1",
+      "0\tmaps/my map.map\t4\t3\t0\t0\t3\t2\t4.41421356",
+      "",
+      "1 arena.map 4 3 3 0 0 2 3",
+    ].join("\n");
+    expect(parseMovingAiScenarios(text)).toEqual({
+      ok: true,
+      problems: [
+        {
+          bucket: 0,
+          mapName: "maps/my map.map",
+          cols: 4,
+          rows: 3,
+          start: { x: 0, y: 0 },
+          goal: { x: 3, y: 2 },
+          optimalLength: 4.41421356,
+        },
+        {
+          bucket: 1,
+          mapName: "arena.map",
+          cols: 4,
+          rows: 3,
+          start: { x: 3, y: 0 },
+          goal: { x: 0, y: 2 },
+          optimalLength: 3,
+        },
+      ],
+    });
+  });
+
+  it("rejects lists without a version, problems or valid cells", () => {
+    expect(parseMovingAiScenarios("0 a.map 4 3 0 0 3 2 4").ok).toBe(false);
+    expect(parseMovingAiScenarios("version 1\n").ok).toBe(false);
+    expect(parseMovingAiScenarios("version 1\n0 a.map 4 3 0 0 4 2 4")).toEqual({
+      ok: false,
+      error: "Line 2 of the scenario list is not a valid problem.",
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { isInBounds, Point } from "./grid";
+import { GridLayout } from "./gridLayout";
+import { Movement } from "./movement";
+import { maxScenarioSize } from "./scenario";
+
+// One search problem of a Moving AI .scen file
+export interface MovingAiProblem {
+  bucket: number;
+  // Map the problem was made for, as written in the .scen file
+  mapName: string;
+  cols: number;
+  rows: number;
+  start: Point;
+  goal: Point;
+  // Cost of the best path under movingAiMovement
+  optimalLength: number;
+}
+
+export type MovingAiMapResult =
+  { ok: true; layout: GridLayout } | { ok: false; error: string };
+
+export type MovingAiProblemsResult =
+  { ok: true; problems: MovingAiProblem[] } | { ok: false; error: string };
+
+// The benchmark lengths count diagonal moves as √2 and never cut corners
+export const movingAiMovement: Movement = {
+  model: "octile",
+  cornerCutting: "forbid",
+};
+
+// Terrain letters of .map files. Swamp is walked on like plain ground, since
+// every passage costs the same here, and water can only be entered from
+// water, so it blocks like trees and out of bounds cells
+const passableTerrain = ".GS";
+const blockedTerrain = "@OTW";
+
+function splitLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+// Reads a .map file: a type, height and width header, then the rows
+export function parseMovingAiMap(text: string): MovingAiMapResult {
+  const lines = splitLines(text);
+  const header: Record<string, string> = {};
+  let mapStart = -1;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === "map") {
+      mapStart = i + 1;
+      break;
+    }
+    const [key, value] = line.split(/\s+/);
+    if (key !== "") header[key] = value;
+  }
+  if (mapStart === -1 || header.height == null || header.width == null) {
+    return {
+      ok: false,
+      error: 'The map has no "height", "width" and "map" header lines.',
+    };
+  }
+
+  const cols = Number(header.width);
+  const rows = Number(header.height);
+  if (
+    !Number.isInteger(cols) ||
+    !Number.isInteger(rows) ||
+    cols < 1 ||
+    rows < 1
+  ) {
+    return { ok: false, error: "The map size must be a whole number." };
+  }
+  if (cols > maxScenarioSize || rows > maxScenarioSize) {
+    return {
+      ok: false,
+      error: `Grids larger than ${maxScenarioSize}×${maxScenarioSize} are not supported.`,
+    };
+  }
+  const mapLines = lines.slice(mapStart, mapStart + rows);
+  if (mapLines.length < rows) {
+    return {
+      ok: false,
+      error: `The map has ${mapLines.length} of its ${rows} rows.`,
+    };
+  }
+
+  const costs: number[][] = [];
+  for (let y = 0; y < rows; y++) {
+    const line = mapLines[y].trimEnd();
+    if (line.length !== cols) {
+      return {
+        ok: false,
+        error: `Row ${y + 1} of the map is not ${cols} wide.`,
+      };
+    }
+    const row: number[] = [];
+    for (const char of line) {
+      if (passableTerrain.includes(char)) {
+        row.push(1);
+      } else if (blockedTerrain.includes(char)) {
+        row.push(0);
+      } else {
+        return {
+          ok: false,
+          error: `Unknown terrain "${char}" in row ${y + 1} of the map.`,
+        };
+      }
+    }
+    costs.push(row);
+  }
+
+  return {
+    ok: true,
+    layout: { cols, rows, costs, source: null, target: null },
+  };
+}
+
+// Reads a .scen file: a version line, then one problem per line
+export function parseMovingAiScenarios(text: string): MovingAiProblemsResult {
+  const lines = splitLines(text);
+  if (!/^version\s/.test(lines[0]?.trim() ?? "")) {
+    return { ok: false, error: 'The scenario list has no "version" line.' };
+  }
+
+  const problems: MovingAiProblem[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trim() === "") continue;
+    // Fields are tab separated, which leaves room for spaces in map names
+    const fields = lines[i].includes("\t")
+      ? lines[i].split("\t")
+      : lines[i].trim().split(/\s+/);
+    const [bucket, cols, rows, startX, startY, goalX, goalY] = [
+      fields[0],
+      ...fields.slice(2, 8),
+    ].map(Number);
+    const optimalLength = Number(fields[8]);
+    const problem: MovingAiProblem = {
+      bucket,
+      mapName: fields[1] ?? "",
+      cols,
+      rows,
+      start: { x: startX, y: startY },
+      goal: { x: goalX, y: goalY },
+      optimalLength,
+    };
+    if (
+      fields.length < 9 ||
+      ![bucket, cols, rows, startX, startY, goalX, goalY].every(
+        Number.isInteger
+      ) ||
+      !isInBounds(problem, startX, startY) ||
+      !isInBounds(problem, goalX, goalY) ||
+      !(optimalLength >= 0)
+    ) {
+      return {
+        ok: false,
+        error: `Line ${i + 1} of the scenario list is not a valid problem.`,
+      };
+    }
+    problems.push(problem);
+  }
+  if (problems.length === 0) {
+    return { ok: false, error: "The scenario list has no problems." };
+  }
+  return { ok: true, problems };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { createMatrix, GridSize } from "./grid";
+import { getReachableCells } from "./movement";
+import { createPrimMaze } from "./primMaze";
+import { createSeededRandom } from "./random";
+
+// The passages of the finished maze, and the frontier it left
+function generate(size: GridSize, seed: number) {
+  const passages = createMatrix(size, false);
+  const maze = createPrimMaze(size, { x: 1, y: 1 }, createSeededRandom(seed));
+  for (const step of maze.steps) {
+    for (const event of step) {
+      if (event.type === "carve") passages[event.y][event.x] = true;
+    }
+  }
+  return { passages, frontier: maze.frontier };
+}
+
+describe("createPrimMaze", () => {
+  it("connects every maze cell without loops", () => {
+    const size = { cols: 15, rows: 11 };
+    const { passages, frontier } = generate(size, 5);
+    expect(frontier).toEqual([]);
+
+    // Every cell with odd coordinates is carved, and a spanning tree over
+    // them opens exactly one wall cell per cell but the first
+    const mazeCells = 7 * 5;
+    const carved = passages.flat().filter(Boolean).length;
+    expect(carved).toBe(2 * mazeCells - 1);
+    const reachable = getReachableCells(
+      { x: 1, y: 1 },
+      { model: "cardinal", cornerCutting: "forbid" },
+      (x, y) => passages[y]?.[x] === true
+    );
+    expect(reachable).toHaveLength(carved);
+  });
+
+  it("grows the same maze from the same seed", () => {
+    const size = { cols: 21, rows: 21 };
+    expect(generate(size, 42).passages).toEqual(generate(size, 42).passages);
+    expect(generate(size, 42).passages).not.toEqual(
+      generate(size, 43).passages
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { AlgorithmEvent, AlgorithmStep, phaseEvent } from "./algorithmEvents";
+import { createMatrix, GridSize, isInBounds, Point } from "./grid";
+
+export interface PrimMaze {
+  // Cells two steps away from the carved passages, not yet connected
+  frontier: Point[];
+  // The first step carves the start cell, every later one connects a frontier
+  // cell to a random carved neighbor
+  steps: Generator<AlgorithmStep, void>;
+}
+
+// Maze cells sit two steps apart, with a wall cell between neighbors
+const mazeDirections = [
+  { dx: -2, dy: 0 },
+  { dx: 2, dy: 0 },
+  { dx: 0, dy: -2 },
+  { dx: 0, dy: 2 },
+];
+
+// Randomized Prim's algorithm, growing the maze outwards from `start`
+export function createPrimMaze(
+  size: GridSize,
+  start: Point,
+  random: () => number = Math.random
+): PrimMaze {
+  const carved = createMatrix(size, false);
+  const inFrontier = createMatrix(size, false);
+  const frontier: Point[] = [];
+
+  function carve(x: number, y: number, events: AlgorithmEvent[]): void {
+    carved[y][x] = true;
+    events.push({ type: "carve", x, y });
+  }
+
+  // Adds the untouched cells around (x, y) to the frontier
+  function expandFrontier(x: number, y: number, events: AlgorithmEvent[]) {
+    for (const { dx, dy } of mazeDirections) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (isInBounds(size, nx, ny) && !carved[ny][nx] && !inFrontier[ny][nx]) {
+        inFrontier[ny][nx] = true;
+        frontier.push({ x: nx, y: ny });
+        events.push({ type: "frontier", x: nx, y: ny });
+      }
+    }
+  }
+
+  function* steps(): Generator<AlgorithmStep, void> {
+    const events: AlgorithmEvent[] = [phaseEvent("init")];
+    carve(start.x, start.y, events);
+    expandFrontier(start.x, start.y, events);
+    yield events;
+
+    while (frontier.length > 0) {
+      const randomIndex = Math.floor(random() * frontier.length);
+      const { x, y } = frontier.splice(randomIndex, 1)[0];
+      const passageNeighbours = mazeDirections
+        .map(({ dx, dy }) => ({ x: x + dx, y: y + dy }))
+        .filter(
+          (cand) => isInBounds(size, cand.x, cand.y) && carved[cand.y][cand.x]
+        );
+      if (passageNeighbours.length === 0) continue;
+
+      const neighbor =
+        passageNeighbours[Math.floor(random() * passageNeighbours.length)];
+      const events: AlgorithmEvent[] = [
+        phaseEvent("pickCell"),
+        phaseEvent("pickNeighbor"),
+        phaseEvent("carve"),
+      ];
+      carve((x + neighbor.x) / 2, (y + neighbor.y) / 2, events);
+      carve(x, y, events);
+      events.push(phaseEvent("addFrontier"));
+      expandFrontier(x, y, events);
+      yield events;
+    }
+  }
+
+  return { frontier, steps: steps() };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { AlgorithmPhase, AlgorithmStep } from "./algorithmEvents";
+import { createGrid, GridSize } from "./grid";
+import { algorithmLabels, createSearch, SearchAlgorithm } from "./gridSearch";
+import { createKruskalMaze } from "./kruskalMaze";
+import {
+  getSearchPseudocode,
+  kruskalPseudocode,
+  primPseudocode,
+  PseudocodeLine,
+} from "./pseudocode";
+import { createPrimMaze } from "./primMaze";
+import { createSeededRandom } from "./random";
+
+function collectPhases(
+  steps: Iterable<AlgorithmStep>,
+  phases: Set<AlgorithmPhase>
+): void {
+  for (const step of steps) {
+    for (const event of step) {
+      if (event.type === "phase") phases.add(event.phase);
+    }
+  }
+}
+
+function getListedPhases(lines: PseudocodeLine[]): AlgorithmPhase[] {
+  return lines.flatMap(({ phase }) => (phase == null ? [] : [phase]));
+}
+
+// A room with a pillar to search around, and a corner walled off from the
+// source so that one search cannot reach its target
+const size: GridSize = { cols: 8, rows: 8 };
+const walls = new Set(["3,2", "3,3", "3,4", "4,3", "6,7", "7,6"]);
+const grid = createGrid(size, (x, y) => !walls.has(`${x},${y}`));
+
+describe("pseudocode listings", () => {
+  for (const algorithm of Object.keys(algorithmLabels) as SearchAlgorithm[]) {
+    it(`have every line of ${algorithmLabels[algorithm]} reached`, () => {
+      const phases = new Set<AlgorithmPhase>();
+      for (const target of [
+        { x: 6, y: 3 },
+        { x: 7, y: 7 },
+      ]) {
+        const search = createSearch(grid, { x: 0, y: 3 }, target, {
+          algorithm,
+          movement: { model: "octile", cornerCutting: "forbid" },
+        });
+        collectPhases(search.steps, phases);
+      }
+      for (const phase of getListedPhases(getSearchPseudocode(algorithm))) {
+        expect(phases).toContain(phase);
+      }
+    });
+  }
+
+  it("have every line of Prim's algorithm reached", () => {
+    const phases = new Set<AlgorithmPhase>();
+    const maze = createPrimMaze(
+      { cols: 9, rows: 9 },
+      { x: 1, y: 1 },
+      createSeededRandom(1)
+    );
+    collectPhases(maze.steps, phases);
+    for (const phase of getListedPhases(primPseudocode)) {
+      expect(phases).toContain(phase);
+    }
+  });
+
+  it("have every line of Kruskal's algorithm reached", () => {
+    const phases = new Set<AlgorithmPhase>();
+    const maze = createKruskalMaze({ cols: 9, rows: 9 }, createSeededRandom(1));
+    collectPhases(maze.steps, phases);
+    for (const phase of getListedPhases(kruskalPseudocode)) {
+      expect(phases).toContain(phase);
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import { AlgorithmPhase } from "./algorithmEvents";
+import { SearchAlgorithm } from "./gridSearch";
+
+export interface PseudocodeLine {
+  text: string;
+  // Nesting depth of the line
+  indent: number;
+  // Phase a step reports when it executes the line
+  phase?: AlgorithmPhase;
+}
+
+function line(
+  indent: number,
+  text: string,
+  phase?: AlgorithmPhase
+): PseudocodeLine {
+  return { text, indent, phase };
+}
+
+// What each best-first search pops from its queue
+const popDescriptions: Partial<Record<SearchAlgorithm, string>> = {
+  dijkstra: "cell with the lowest dist",
+  astar: "cell with the lowest dist + w · h",
+  bfs: "oldest cell",
+  dfs: "newest cell",
+  greedy: "cell with the lowest h",
+};
+
+// When each best-first search accepts a new route to a neighbor
+const relaxConditions: Partial<Record<SearchAlgorithm, string>> = {
+  bfs: "if n was never queued:",
+  dfs: "always, following the newest route:",
+  greedy: "if n was never queued:",
+};
+
+const bidirectionalPseudocode: PseudocodeLine[] = [
+  line(0, "queue source forward and target in reverse"),
+  line(0, "while both queues hold cells:"),
+  line(1, "if min dist forward + min dist reverse ≥ best:"),
+  line(2, "return the path through the meeting point", "found"),
+  line(1, "current ← pop from the frontiers in turn", "pop"),
+  line(1, "mark current visited", "visit"),
+  line(1, "best ← min(best, dist forward + dist reverse)", "meet"),
+  line(1, "for each unvisited neighbor n of current:"),
+  line(2, "if dist[current] + cost(n) < dist[n]:", "relax"),
+  line(3, "dist[n], prev[n] ← ..., current; queue n", "push"),
+  line(0, "return unreachable", "unreachable"),
+];
+
+const jumpPointPseudocode: PseudocodeLine[] = [
+  line(0, "dist[source] ← 0; queue source"),
+  line(0, "while the queue is not empty:"),
+  line(1, "current ← pop cell with the lowest dist + h", "pop"),
+  line(1, "mark current visited", "visit"),
+  line(1, "if current is target:"),
+  line(2, "return the path along the jumps", "found"),
+  line(1, "prune directions using the parent of current", "prune"),
+  line(1, "for each direction left:"),
+  line(2, "j ← jump to the next jump point", "jump"),
+  line(2, "if dist[current] + |j - current| < dist[j]:"),
+  line(3, "dist[j], prev[j] ← ..., current; queue j", "push"),
+  line(0, "return unreachable", "unreachable"),
+];
+
+export function getSearchPseudocode(
+  algorithm: SearchAlgorithm
+): PseudocodeLine[] {
+  if (algorithm === "biDijkstra" || algorithm === "biBfs") {
+    return bidirectionalPseudocode;
+  }
+  if (algorithm === "jps") return jumpPointPseudocode;
+
+  return [
+    line(0, "dist[source] ← 0; queue source"),
+    line(0, "while the queue is not empty:"),
+    line(1, `current ← pop ${popDescriptions[algorithm]}`, "pop"),
+    line(1, "mark current visited", "visit"),
+    line(1, "if current is target:"),
+    line(2, "return the path along prev", "found"),
+    line(1, "for each unvisited neighbor n of current:"),
+    line(
+      2,
+      relaxConditions[algorithm] ?? "if dist[current] + cost(n) < dist[n]:",
+      "relax"
+    ),
+    line(3, "dist[n], prev[n] ← ..., current; queue n", "push"),
+    line(0, "return unreachable", "unreachable"),
+  ];
+}
+
+export const primPseudocode: PseudocodeLine[] = [
+  line(0, "carve start; add its neighbors to the frontier", "init"),
+  line(0, "while the frontier is not empty:"),
+  line(1, "cell ← remove a random frontier cell", "pickCell"),
+  line(1, "neighbor ← a random carved cell next to it", "pickNeighbor"),
+  line(1, "carve cell and the wall to neighbor", "carve"),
+  line(1, "add the uncarved neighbors of cell to the frontier", "addFrontier"),
+];
+
+export const kruskalPseudocode: PseudocodeLine[] = [
+  line(0, "carve every cell as a set of its own", "init"),
+  line(0, "shuffle the walls between cells"),
+  line(0, "while more than one set remains:"),
+  line(1, "wall ← take the next wall", "pickWall"),
+  line(1, "if find(a) ≠ find(b) for the cells beside it:", "findSets"),
+  line(2, "union(a, b)", "union"),
+  line(2, "carve wall", "carve"),
+];
@@ -0,0 +1,17 @@
+// A fresh 32-bit seed for a maze that can be rebuilt later
+export function createSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+// Mulberry32, a small generator of numbers in [0, 1) that always gives the
+// same sequence for the same seed
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
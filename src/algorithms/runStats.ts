@@ -0,0 +1,81 @@
+import { Grid, Point } from "./grid";
+
+// Measurements of one finished run of an algorithm
+export interface RunStats {
+  algorithm: string;
+  // Runs with equal keys ran on the same grid between the same cells
+  gridKey: string;
+  gridLabel: string;
+  // Cells expanded by a search, or carved by a maze generator
+  expanded: number;
+  // Largest size of the queue or frontier after any step
+  peakFrontier: number;
+  // Moves from source to target, null for mazes and unreachable targets
+  pathLength: number | null;
+  pathCost: number | null;
+  // Time spent computing steps, leaving out the animation between them
+  timeMs: number;
+  steps: number;
+}
+
+// What is measured while an algorithm runs, until it becomes a RunStats
+export interface RunMeasurements {
+  timeMs: number;
+  expanded: number;
+  path: { length: number; cost: number } | null;
+}
+
+export function createRunMeasurements(): RunMeasurements {
+  return { timeMs: 0, expanded: 0, path: null };
+}
+
+// FNV-1a over the layout of the grid, so that equal grids share a key
+export function getGridKey(grid: Grid, ...points: Point[]): string {
+  let hash = 0x811c9dc5;
+  function mix(value: number): void {
+    hash ^= value;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  mix(grid.cols);
+  mix(grid.rows);
+  for (let y = 0; y < grid.rows; y++) {
+    for (let x = 0; x < grid.cols; x++) {
+      mix(grid.isWalkable(x, y) ? grid.getCost(x, y) : 0);
+    }
+  }
+  for (const { x, y } of points) {
+    mix(x);
+    mix(y);
+  }
+  return hash.toString(16).padStart(8, "0");
+}
+
+export const runStatsColumns: Array<{ key: keyof RunStats; label: string }> = [
+  { key: "gridLabel", label: "Grid" },
+  { key: "algorithm", label: "Algorithm" },
+  { key: "expanded", label: "Expanded" },
+  { key: "peakFrontier", label: "Peak frontier" },
+  { key: "pathLength", label: "Path length" },
+  { key: "pathCost", label: "Path cost" },
+  { key: "timeMs", label: "Compute time (ms)" },
+  { key: "steps", label: "Steps" },
+];
+
+export function formatStat(value: RunStats[keyof RunStats]): string {
+  if (value === null) return "";
+  if (typeof value === "number") return `${Math.round(value * 100) / 100}`;
+  return value;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function runStatsToCsv(runs: RunStats[]): string {
+  const lines = [runStatsColumns.map(({ label }) => label)];
+  for (const run of runs) {
+    lines.push(runStatsColumns.map(({ key }) => formatStat(run[key])));
+  }
+  return lines.map((line) => line.map(escapeCsv).join(",")).join("\n") + "\n";
+}
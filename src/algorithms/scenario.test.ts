@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  getMazeScenarioError,
+  parseScenario,
+  Scenario,
+  serializeScenario,
+} from "./scenario";
+
+const scenario: Scenario = {
+  cols: 3,
+  rows: 2,
+  costs: [
+    [1, 0, 2.5],
+    [4, 1, 1],
+  ],
+  source: { x: 0, y: 0 },
+  target: { x: 2, y: 1 },
+  settings: { algorithm: "dijkstra" },
+};
+
+describe("scenario files", () => {
+  it("read back what was saved", () => {
+    const text = serializeScenario(scenario);
+    expect(JSON.parse(text)).toMatchObject({
+      walls: [".#.", "..."],
+      weights: [
+        [2, 0, 2.5],
+        [0, 1, 4],
+      ],
+    });
+    expect(parseScenario(text)).toEqual({ ok: true, scenario });
+  });
+
+  it("reject files that are not scenarios", () => {
+    expect(parseScenario("not json")).toEqual({
+      ok: false,
+      error: "The file is not valid JSON.",
+    });
+    expect(parseScenario("{}").ok).toBe(false);
+  });
+
+  it("reject newer versions, walls of the wrong size and bad weights", () => {
+    const file = JSON.parse(serializeScenario(scenario));
+    for (const change of [
+      { version: 2 },
+      { walls: [".#", "..."] },
+      { weights: [[1, 0, 3]] },
+      { weights: [[0, 0, 0.5]] },
+      { source: { x: 5, y: 0 } },
+      { settings: { algorithm: "teleport" } },
+    ]) {
+      expect(parseScenario(JSON.stringify({ ...file, ...change })).ok).toBe(
+        false
+      );
+    }
+  });
+
+  it("only load unweighted grids of a maze's size as mazes", () => {
+    expect(getMazeScenarioError(scenario, 2, 9)).toBe(
+      "Weighted terrain can only be loaded on the Dijkstra page."
+    );
+    const unweighted = { cols: 3, rows: 2, costs: [[1, 0, 1]] };
+    expect(getMazeScenarioError(unweighted, 2, 9)).toBeNull();
+    expect(getMazeScenarioError(unweighted, 5, 9)).not.toBeNull();
+  });
+});
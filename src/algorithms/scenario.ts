@@ -0,0 +1,258 @@
+import { GridSize, isInBounds, Point } from "./grid";
+import { GridLayout } from "./gridLayout";
+import { algorithmLabels, SearchOptions } from "./gridSearch";
+import { heuristicLabels } from "./heuristics";
+
+// A grid saved together with the settings it was explored with
+export interface Scenario extends GridLayout {
+  // Settings a page does not offer are left out
+  settings: Partial<SearchOptions>;
+}
+
+export type ScenarioResult =
+  { ok: true; scenario: Scenario } | { ok: false; error: string };
+
+const scenarioFormat = "pathfinding-scenario";
+export const scenarioVersion = 1;
+
+// Largest grid a scenario may describe, as big as the largest benchmark maps
+export const maxScenarioSize = 1024;
+
+// The JSON document, with walls drawn as rows of "#" and "." so that files
+// stay readable and weights listed only for cells that have one
+interface ScenarioFile {
+  format: typeof scenarioFormat;
+  version: number;
+  cols: number;
+  rows: number;
+  walls: string[];
+  // [x, y, cost] of every cell costing more than 1
+  weights?: Array<[number, number, number]>;
+  source: Point | null;
+  target: Point | null;
+  settings: Partial<SearchOptions>;
+}
+
+export function serializeScenario(scenario: Scenario): string {
+  const { cols, rows, costs, source, target, settings } = scenario;
+  const weights: Array<[number, number, number]> = [];
+  const walls = costs.map((row, y) =>
+    row
+      .map((cost, x) => {
+        if (cost > 1) weights.push([x, y, cost]);
+        return cost === 0 ? "#" : ".";
+      })
+      .join("")
+  );
+
+  const file: ScenarioFile = {
+    format: scenarioFormat,
+    version: scenarioVersion,
+    cols,
+    rows,
+    walls,
+    ...(weights.length > 0 && { weights }),
+    source,
+    target,
+    settings,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSize(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1;
+}
+
+export function parseScenario(text: string): ScenarioResult {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "The file is not valid JSON." };
+  }
+  if (!isObject(file) || file.format !== scenarioFormat) {
+    return { ok: false, error: "The file is not a saved scenario." };
+  }
+  if (!Number.isInteger(file.version) || (file.version as number) < 1) {
+    return { ok: false, error: "The scenario has no valid version." };
+  }
+  if ((file.version as number) > scenarioVersion) {
+    return {
+      ok: false,
+      error: `The scenario is version ${file.version}, this page reads up to version ${scenarioVersion}.`,
+    };
+  }
+
+  const { cols, rows } = file;
+  if (!isSize(cols) || !isSize(rows)) {
+    return { ok: false, error: "The grid size must be a whole number." };
+  }
+  if (cols > maxScenarioSize || rows > maxScenarioSize) {
+    return {
+      ok: false,
+      error: `Grids larger than ${maxScenarioSize}×${maxScenarioSize} are not supported.`,
+    };
+  }
+
+  const { walls } = file;
+  if (
+    !Array.isArray(walls) ||
+    walls.length !== rows ||
+    walls.some((row) => typeof row !== "string" || !/^[#.]*$/.test(row))
+  ) {
+    return {
+      ok: false,
+      error: `The walls must be ${rows} rows of "#" and "." characters.`,
+    };
+  }
+  if (walls.some((row: string) => row.length !== cols)) {
+    return { ok: false, error: `Every row of walls must be ${cols} wide.` };
+  }
+  const costs: number[][] = walls.map((row: string) =>
+    [...row].map((char) => (char === "#" ? 0 : 1))
+  );
+
+  const weights = file.weights ?? [];
+  if (!Array.isArray(weights)) {
+    return { ok: false, error: "The weights must be a list." };
+  }
+  for (const weight of weights) {
+    const [x, y, cost] = Array.isArray(weight) ? weight : [];
+    if (
+      !Number.isInteger(x) ||
+      !Number.isInteger(y) ||
+      !isInBounds({ cols, rows }, x, y) ||
+      typeof cost !== "number" ||
+      !(cost >= 1 && cost < Infinity)
+    ) {
+      return {
+        ok: false,
+        error:
+          "Every weight must be [x, y, cost] inside the grid with a cost of at least 1.",
+      };
+    }
+    if (costs[y][x] === 0) {
+      return { ok: false, error: `The weighted cell (${x}, ${y}) is a wall.` };
+    }
+    costs[y][x] = cost;
+  }
+
+  const endpoints: Array<Point | null> = [];
+  for (const name of ["source", "target"] as const) {
+    const point = file[name] ?? null;
+    if (point === null) {
+      endpoints.push(null);
+      continue;
+    }
+    if (
+      !isObject(point) ||
+      !Number.isInteger(point.x) ||
+      !Number.isInteger(point.y) ||
+      !isInBounds({ cols, rows }, point.x as number, point.y as number)
+    ) {
+      return {
+        ok: false,
+        error: `The ${name} must be a cell inside the grid.`,
+      };
+    }
+    const { x, y } = point as unknown as Point;
+    if (costs[y][x] === 0) {
+      return { ok: false, error: `The ${name} (${x}, ${y}) is a wall.` };
+    }
+    endpoints.push({ x, y });
+  }
+  const [source, target] = endpoints;
+  if (
+    source != null &&
+    target != null &&
+    source.x === target.x &&
+    source.y === target.y
+  ) {
+    return { ok: false, error: "The source and target are the same cell." };
+  }
+
+  const settings = parseScenarioSettings(file.settings ?? {});
+  if (typeof settings === "string") return { ok: false, error: settings };
+
+  return {
+    ok: true,
+    scenario: { cols, rows, costs, source, target, settings },
+  };
+}
+
+// The settings found in a file or link, or what is wrong with them
+export function parseScenarioSettings(
+  value: unknown
+): Partial<SearchOptions> | string {
+  if (!isObject(value)) return "The settings must be an object.";
+  const settings: Partial<SearchOptions> = {};
+  const { algorithm, heuristic, heuristicWeight, movement } = value;
+
+  if (algorithm !== undefined) {
+    if (
+      typeof algorithm !== "string" ||
+      !Object.keys(algorithmLabels).includes(algorithm)
+    ) {
+      return `Unknown search algorithm "${algorithm}".`;
+    }
+    settings.algorithm = algorithm as SearchOptions["algorithm"];
+  }
+  if (heuristic !== undefined) {
+    if (
+      typeof heuristic !== "string" ||
+      !Object.keys(heuristicLabels).includes(heuristic)
+    ) {
+      return `Unknown heuristic "${heuristic}".`;
+    }
+    settings.heuristic = heuristic as SearchOptions["heuristic"];
+  }
+  if (heuristicWeight !== undefined) {
+    if (typeof heuristicWeight !== "number" || !(heuristicWeight >= 1)) {
+      return "The heuristic weight must be a number of at least 1.";
+    }
+    settings.heuristicWeight = heuristicWeight;
+  }
+  if (movement !== undefined) {
+    if (
+      !isObject(movement) ||
+      (movement.model !== "cardinal" && movement.model !== "octile") ||
+      (movement.cornerCutting !== "allow" &&
+        movement.cornerCutting !== "forbid")
+    ) {
+      return "The movement must have a cardinal or octile model and allow or forbid corner cutting.";
+    }
+    settings.movement = {
+      model: movement.model,
+      cornerCutting: movement.cornerCutting,
+    };
+  }
+  return settings;
+}
+
+// Why a scenario cannot be loaded as a maze, whose passages all cost 1. Its
+// costs are null when the maze is rebuilt from a seed instead
+export function getMazeScenarioError(
+  { cols, rows, costs }: GridSize & { costs: number[][] | null },
+  minSize: number,
+  maxSize: number
+): string | null {
+  if (costs?.some((row) => row.some((cost) => cost > 1))) {
+    return "Weighted terrain can only be loaded on the Dijkstra page.";
+  }
+  if (Math.min(cols, rows) < minSize || Math.max(cols, rows) > maxSize) {
+    return `Mazes must be between ${minSize}×${minSize} and ${maxSize}×${maxSize}.`;
+  }
+  return null;
+}
+
+export async function readScenarioFile(file: File): Promise<ScenarioResult> {
+  try {
+    return parseScenario(await file.text());
+  } catch {
+    return { ok: false, error: `${file.name} could not be read.` };
+  }
+}
@@ -0,0 +1,2 @@
+// End state of a pathfinding run, readable by the pages embedding a grid
+export type SearchStatus = "idle" | "running" | "found" | "unreachable";
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { decodeSharedSetup, encodeSharedSetup, SharedSetup } from "./shareLink";
+
+const drawnSetup: SharedSetup = {
+  cols: 4,
+  rows: 3,
+  costs: [
+    [1, 1, 0, 7],
+    [1, 0, 0, 1],
+    [300, 1, 1, 1],
+  ],
+  mazeSeed: null,
+  source: { x: 0, y: 0 },
+  target: { x: 3, y: 2 },
+  settings: {
+    algorithm: "astar",
+    heuristic: "octile",
+    heuristicWeight: 1.5,
+    movement: { model: "octile", cornerCutting: "allow" },
+  },
+};
+
+// The header of a link, encoded as a link would hold it
+function encodeHeader(header: object): string {
+  return btoa(JSON.stringify(header)).replace(/=+$/, "");
+}
+
+describe("shared setup links", () => {
+  it("restore a drawn grid cell by cell", () => {
+    const link = encodeSharedSetup(drawnSetup);
+    expect(link).toMatch(/^[\w-]+\.[\w-]+$/);
+    expect(decodeSharedSetup(link)).toEqual({ ok: true, setup: drawnSetup });
+  });
+
+  it("restore fractional weights exactly", () => {
+    const setup: SharedSetup = {
+      ...drawnSetup,
+      costs: [
+        [1, 1.5, 0, 2.25],
+        [1, 0, 0, 1],
+        [3, 1.5, 1, 1],
+      ],
+    };
+    expect(decodeSharedSetup(encodeSharedSetup(setup))).toEqual({
+      ok: true,
+      setup,
+    });
+  });
+
+  it("carry only the seed of a generated maze", () => {
+    const setup: SharedSetup = {
+      ...drawnSetup,
+      costs: null,
+      mazeSeed: 123456789,
+      settings: {},
+    };
+    const link = encodeSharedSetup(setup);
+    expect(link).not.toContain(".");
+    expect(decodeSharedSetup(link)).toEqual({ ok: true, setup });
+  });
+
+  it("reject damaged links", () => {
+    const [header, grid] = encodeSharedSetup(drawnSetup).split(".");
+    expect(decodeSharedSetup("!!!").ok).toBe(false);
+    expect(decodeSharedSetup(header).ok).toBe(false);
+    expect(decodeSharedSetup(`${header}.${grid.slice(0, -2)}`).ok).toBe(false);
+  });
+
+  it("tell whether a link is from a newer or older version", () => {
+    expect(decodeSharedSetup(encodeHeader({ v: 99 }))).toEqual({
+      ok: false,
+      error: "The link was made by a newer version.",
+    });
+    expect(decodeSharedSetup(encodeHeader({ v: 0 }))).toEqual({
+      ok: false,
+      error: "The link was made by an older version that is not supported.",
+    });
+    expect(decodeSharedSetup(encodeHeader({ cols: 3 }))).toEqual({
+      ok: false,
+      error: "The link has no version, it may be damaged.",
+    });
+  });
+
+  it("reject endpoints on walls", () => {
+    const link = encodeSharedSetup({ ...drawnSetup, target: { x: 2, y: 0 } });
+    expect(decodeSharedSetup(link)).toEqual({
+      ok: false,
+      error: "The target (2, 0) is a wall.",
+    });
+  });
+});
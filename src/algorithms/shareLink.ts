@@ -0,0 +1,264 @@
+import { isInBounds, Point } from "./grid";
+import { SearchOptions } from "./gridSearch";
+import { maxScenarioSize, parseScenarioSettings, Scenario } from "./scenario";
+
+// Everything a link restores. Mazes generated on the page are rebuilt from
+// their seed, drawn or loaded grids travel cell by cell
+export interface SharedSetup extends Omit<Scenario, "costs"> {
+  // Null when the maze seed rebuilds the grid
+  costs: number[][] | null;
+  mazeSeed: number | null;
+}
+
+export type SharedSetupResult =
+  { ok: true; setup: SharedSetup } | { ok: false; error: string };
+
+// Query parameter of the page route holding the setup
+export const shareParam = "s";
+const shareVersion = 2;
+// Links of version 1 are those of version 2 without a cost palette
+const oldestShareVersion = 1;
+
+// The readable part of a link, base64 encoded ahead of the grid
+interface ShareHeader {
+  v: number;
+  cols: number;
+  rows: number;
+  seed?: number;
+  source: Point | null;
+  target: Point | null;
+  settings: Partial<SearchOptions>;
+  // Every cost of the grid, which its runs then refer to by index. Only
+  // written when a cost is not a whole number, as varints hold no fractions
+  palette?: number[];
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+// Throws when the text is not base64
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function writeVarint(bytes: number[], value: number): void {
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+}
+
+// The distinct costs of a grid, when they cannot all be written as varints
+function getCostPalette(costs: number[][]): number[] | undefined {
+  const distinct = [...new Set(costs.flat())];
+  return distinct.every(Number.isInteger) ? undefined : distinct;
+}
+
+// Runs of equal costs, row after row, as pairs of cost and run length, with
+// the index of the cost in the palette standing in for it if there is one
+function encodeCosts(costs: number[][], palette?: number[]): Uint8Array {
+  const bytes: number[] = [];
+  let runCost = -1;
+  let runLength = 0;
+  for (const cost of costs.flat()) {
+    const value = palette?.indexOf(cost) ?? cost;
+    if (value === runCost) {
+      runLength++;
+      continue;
+    }
+    if (runLength > 0) {
+      writeVarint(bytes, runCost);
+      writeVarint(bytes, runLength);
+    }
+    runCost = value;
+    runLength = 1;
+  }
+  if (runLength > 0) {
+    writeVarint(bytes, runCost);
+    writeVarint(bytes, runLength);
+  }
+  return Uint8Array.from(bytes);
+}
+
+// The costs of a cols × rows grid, or null when the runs do not fill it or
+// refer to costs missing from the palette
+function decodeCosts(
+  bytes: Uint8Array,
+  cols: number,
+  rows: number,
+  palette?: number[]
+): number[][] | null {
+  const cells: number[] = [];
+  let offset = 0;
+
+  function readVarint(): number | null {
+    let value = 0;
+    for (let shift = 0; shift < 35; shift += 7) {
+      if (offset >= bytes.length) return null;
+      const byte = bytes[offset++];
+      value += (byte & 0x7f) * 2 ** shift;
+      if (byte < 0x80) return value;
+    }
+    return null;
+  }
+
+  while (offset < bytes.length) {
+    const value = readVarint();
+    const runLength = readVarint();
+    if (value == null || runLength == null) return null;
+    const cost = palette == null ? value : palette[value];
+    if (cost === undefined) return null;
+    if (cells.length + runLength > cols * rows) return null;
+    for (let i = 0; i < runLength; i++) cells.push(cost);
+  }
+  if (cells.length !== cols * rows) return null;
+
+  return Array.from({ length: rows }, (_, y) =>
+    cells.slice(y * cols, (y + 1) * cols)
+  );
+}
+
+export function encodeSharedSetup(setup: SharedSetup): string {
+  const { cols, rows, costs, mazeSeed, source, target, settings } = setup;
+  const sharesCosts = mazeSeed === null && costs !== null;
+  const palette = sharesCosts ? getCostPalette(costs) : undefined;
+  const header: ShareHeader = {
+    v: shareVersion,
+    cols,
+    rows,
+    ...(mazeSeed !== null && { seed: mazeSeed }),
+    source,
+    target,
+    settings,
+    ...(palette !== undefined && { palette }),
+  };
+  const parts = [toBase64Url(new TextEncoder().encode(JSON.stringify(header)))];
+  if (sharesCosts) parts.push(toBase64Url(encodeCosts(costs, palette)));
+  return parts.join(".");
+}
+
+function isGridSize(value: unknown): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= 1 &&
+    (value as number) <= maxScenarioSize
+  );
+}
+
+// A wall, or a cost that scenario files accept for a weight
+function isCost(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    (value === 0 || (value >= 1 && value < Infinity))
+  );
+}
+
+function isPoint(value: unknown, cols: number, rows: number): value is Point {
+  if (typeof value !== "object" || value === null) return false;
+  const { x, y } = value as Record<string, unknown>;
+  return (
+    Number.isInteger(x) &&
+    Number.isInteger(y) &&
+    isInBounds({ cols, rows }, x as number, y as number)
+  );
+}
+
+export function decodeSharedSetup(text: string): SharedSetupResult {
+  const [headerText, gridText] = text.split(".");
+  let header: Partial<ShareHeader>;
+  let gridBytes: Uint8Array | null;
+  try {
+    header = JSON.parse(new TextDecoder().decode(fromBase64Url(headerText)));
+    gridBytes = gridText == null ? null : fromBase64Url(gridText);
+  } catch {
+    return { ok: false, error: "The link is damaged, it may be cut short." };
+  }
+  if (typeof header !== "object" || header === null) {
+    return { ok: false, error: "The link is damaged, it may be cut short." };
+  }
+  const { v } = header;
+  if (typeof v !== "number" || !Number.isInteger(v)) {
+    return { ok: false, error: "The link has no version, it may be damaged." };
+  }
+  if (v > shareVersion) {
+    return { ok: false, error: "The link was made by a newer version." };
+  }
+  if (v < oldestShareVersion) {
+    return {
+      ok: false,
+      error: "The link was made by an older version that is not supported.",
+    };
+  }
+
+  const { cols, rows, seed, palette } = header;
+  if (!isGridSize(cols) || !isGridSize(rows)) {
+    return { ok: false, error: "The link has no valid grid size." };
+  }
+  if (
+    palette !== undefined &&
+    !(Array.isArray(palette) && palette.every(isCost))
+  ) {
+    return { ok: false, error: "The costs of the link are not valid." };
+  }
+  if (
+    seed !== undefined &&
+    !(Number.isInteger(seed) && seed >= 0 && seed < 2 ** 32)
+  ) {
+    return { ok: false, error: "The maze seed of the link is not valid." };
+  }
+  const mazeSeed = seed ?? null;
+
+  let costs: number[][] | null = null;
+  if (mazeSeed === null) {
+    costs =
+      gridBytes == null ? null : decodeCosts(gridBytes, cols, rows, palette);
+    if (costs == null) {
+      return { ok: false, error: "The grid of the link is damaged." };
+    }
+  }
+
+  const endpoints: Array<Point | null> = [];
+  for (const name of ["source", "target"] as const) {
+    const point = header[name] ?? null;
+    if (point === null) {
+      endpoints.push(null);
+      continue;
+    }
+    if (!isPoint(point, cols, rows)) {
+      return {
+        ok: false,
+        error: `The ${name} must be a cell inside the grid.`,
+      };
+    }
+    const { x, y } = point;
+    if (costs?.[y][x] === 0) {
+      return { ok: false, error: `The ${name} (${x}, ${y}) is a wall.` };
+    }
+    endpoints.push({ x, y });
+  }
+  const [source, target] = endpoints;
+  if (
+    source != null &&
+    target != null &&
+    source.x === target.x &&
+    source.y === target.y
+  ) {
+    return { ok: false, error: "The source and target are the same cell." };
+  }
+
+  const settings = parseScenarioSettings(header.settings ?? {});
+  if (typeof settings === "string") return { ok: false, error: settings };
+
+  return {
+    ok: true,
+    setup: { cols, rows, costs, mazeSeed, source, target, settings },
+  };
+}
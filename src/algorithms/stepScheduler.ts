@@ -0,0 +1,120 @@
+// A run handed to the scheduler, taking one algorithm step at a time
+export interface ScheduledRun {
+  // Takes one step, returning whether there are steps left
+  step(): boolean;
+  // Called after every batch of steps taken between two renders
+  afterSteps?(): void;
+  // Called once step() reports the end, not when the run is stopped
+  onFinish?(): void;
+}
+
+export interface StepScheduler {
+  readonly running: boolean;
+  // Stops any run in progress and starts taking the steps of `run`
+  start(run: ScheduledRun): void;
+  stop(): void;
+  // Takes effect right away, also for a run in progress
+  setSpeed(stepsPerSecond: number): void;
+}
+
+export interface SpeedPreset {
+  label: string;
+  stepsPerSecond: number;
+}
+
+export const speedPresets: SpeedPreset[] = [
+  { label: "1 step/s", stepsPerSecond: 1 },
+  { label: "2 steps/s", stepsPerSecond: 2 },
+  { label: "5 steps/s", stepsPerSecond: 5 },
+  { label: "10 steps/s", stepsPerSecond: 10 },
+  { label: "30 steps/s", stepsPerSecond: 30 },
+  { label: "100 steps/s", stepsPerSecond: 100 },
+  { label: "300 steps/s", stepsPerSecond: 300 },
+  { label: "1000 steps/s", stepsPerSecond: 1000 },
+  { label: "3000 steps/s", stepsPerSecond: 3000 },
+  { label: "Instant", stepsPerSecond: Infinity },
+];
+
+// Longest a batch of steps may hold the page before it can render again
+const batchBudgetMs = 12;
+
+// Takes steps when they are due on a timer, so slow speeds wait between
+// single steps and fast ones take as many steps as fit between renders
+export function createStepScheduler(stepsPerSecond: number): StepScheduler {
+  let speed = stepsPerSecond;
+  let run: ScheduledRun | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // When the next step is due, in performance.now() time
+  let nextStepAt = 0;
+
+  function getInterval(): number {
+    return Number.isFinite(speed) ? 1000 / speed : 0;
+  }
+
+  function stop(): void {
+    run = null;
+    if (timer != null) clearTimeout(timer);
+    timer = null;
+  }
+
+  function schedule(): void {
+    if (timer != null) clearTimeout(timer);
+    timer = setTimeout(tick, Math.max(0, nextStepAt - performance.now()));
+  }
+
+  function tick(): void {
+    timer = null;
+    const current = run;
+    if (current == null) return;
+
+    const batchStart = performance.now();
+    let finished = false;
+    while (
+      run === current &&
+      performance.now() >= nextStepAt &&
+      performance.now() - batchStart < batchBudgetMs
+    ) {
+      if (!current.step()) {
+        finished = true;
+        break;
+      }
+      nextStepAt += getInterval();
+    }
+    current.afterSteps?.();
+
+    if (finished) {
+      if (run === current) run = null;
+      current.onFinish?.();
+      return;
+    }
+    if (run !== current) return;
+
+    // Steps the page could not keep up with are dropped, not rushed later
+    const now = performance.now();
+    if (nextStepAt < now - batchBudgetMs) nextStepAt = now;
+    schedule();
+  }
+
+  return {
+    get running() {
+      return run != null;
+    },
+
+    start(next) {
+      stop();
+      run = next;
+      nextStepAt = performance.now();
+      tick();
+    },
+
+    stop,
+
+    setSpeed(stepsPerSecond) {
+      speed = stepsPerSecond;
+      if (run == null) return;
+      // Speeding up should not wait out the delay of the old speed
+      nextStepAt = Math.min(nextStepAt, performance.now() + getInterval());
+      schedule();
+    },
+  };
+}
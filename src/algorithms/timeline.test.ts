@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { createMatrix } from "./grid";
+import { createTimeline } from "./timeline";
+
+describe("createTimeline", () => {
+  it("restores the grid of every step when seeking back and forth", () => {
+    const size = { cols: 6, rows: 5 };
+    const cells = createMatrix(size, 0);
+    const timeline = createTimeline<number, number>();
+    // A linear congruential generator, so that every run makes the same edits
+    let state = 11;
+    const random = () => {
+      state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+      return state / 2 ** 32;
+    };
+    // The grid after every step, the first before any step
+    const snapshots = [cells.map((row) => [...row])];
+
+    for (let step = 1; step <= 20; step++) {
+      timeline.beginStep();
+      for (let i = 0; i < 4; i++) {
+        const x = Math.floor(random() * size.cols);
+        const y = Math.floor(random() * size.rows);
+        const next = Math.floor(random() * 3);
+        timeline.record(x, y, cells[y][x], next);
+        cells[y][x] = next;
+      }
+      timeline.endStep(step);
+      snapshots.push(cells.map((row) => [...row]));
+    }
+    expect(timeline.length).toBe(20);
+    expect(timeline.position).toBe(20);
+
+    function seek(position: number): void {
+      timeline.seek(position, (x, y, expected, next) => {
+        expect(cells[y][x]).toBe(expected);
+        cells[y][x] = next;
+      });
+    }
+
+    for (const position of [0, 13, 4, 20, 7, 7, 0, 20]) {
+      seek(position);
+      expect(timeline.position).toBe(position);
+      expect(cells).toEqual(snapshots[position]);
+      expect(timeline.current).toBe(position > 0 ? position : undefined);
+      expect(timeline.getAppliedData()).toEqual(
+        Array.from({ length: position }, (_, i) => i + 1)
+      );
+    }
+  });
+
+  it("keeps seeks within the recorded steps", () => {
+    const timeline = createTimeline<string, null>();
+    timeline.beginStep();
+    timeline.record(0, 0, "a", "b");
+    timeline.endStep(null);
+
+    const applied: string[] = [];
+    timeline.seek(-5, (_x, _y, _expected, next) => applied.push(next));
+    timeline.seek(9, (_x, _y, _expected, next) => applied.push(next));
+    expect(applied).toEqual(["a", "b"]);
+    expect(timeline.position).toBe(1);
+  });
+});
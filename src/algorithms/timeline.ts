@@ -0,0 +1,97 @@
+// A cell that changed from one state to another during a step
+export interface CellChange<S> {
+  x: number;
+  y: number;
+  from: S;
+  to: S;
+}
+
+// Recorded steps of a run as cell-state deltas, with data such as counters
+// stored alongside each step so that any step can be restored
+export interface Timeline<S, D> {
+  // Number of recorded steps
+  readonly length: number;
+  // Number of steps currently applied to the grid
+  readonly position: number;
+  // Data recorded with the last applied step, undefined before the first
+  readonly current: D | undefined;
+  // Data recorded with every applied step, oldest first
+  getAppliedData(): D[];
+  // Starts recording a step. Steps are only recorded at the end.
+  beginStep(): void;
+  // Notes a change made by the step being recorded
+  record(x: number, y: number, from: S, to: S): void;
+  endStep(data: D): void;
+  // Undoes or redoes steps until `position` of them are applied. `apply` is
+  // called for every changed cell with the state it should have before the
+  // change and the state to give it.
+  seek(
+    position: number,
+    apply: (x: number, y: number, expected: S, next: S) => void
+  ): void;
+  clear(): void;
+}
+
+export function createTimeline<S, D>(): Timeline<S, D> {
+  const steps: Array<{ changes: CellChange<S>[]; data: D }> = [];
+  let recording: CellChange<S>[] | null = null;
+  let position = 0;
+
+  return {
+    get length() {
+      return steps.length;
+    },
+
+    get position() {
+      return position;
+    },
+
+    get current() {
+      return position > 0 ? steps[position - 1].data : undefined;
+    },
+
+    getAppliedData() {
+      return steps.slice(0, position).map(({ data }) => data);
+    },
+
+    beginStep() {
+      recording = [];
+    },
+
+    record(x, y, from, to) {
+      if (recording != null && from !== to) {
+        recording.push({ x, y, from, to });
+      }
+    },
+
+    endStep(data) {
+      if (recording == null) return;
+      steps.push({ changes: recording, data });
+      position = steps.length;
+      recording = null;
+    },
+
+    seek(target, apply) {
+      target = Math.max(0, Math.min(steps.length, target));
+      while (position > target) {
+        // Undo the changes of a step in the reverse order they were made
+        const { changes } = steps[--position];
+        for (let i = changes.length - 1; i >= 0; i--) {
+          const { x, y, from, to } = changes[i];
+          apply(x, y, to, from);
+        }
+      }
+      while (position < target) {
+        for (const { x, y, from, to } of steps[position++].changes) {
+          apply(x, y, from, to);
+        }
+      }
+    },
+
+    clear() {
+      steps.length = 0;
+      recording = null;
+      position = 0;
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  centerViewOn,
+  clampView,
+  fitView,
+  getMaxZoom,
+  zoomViewAt,
+} from "./zoomView";
+
+const viewport = { width: 400, height: 300 };
+
+describe("zoom views", () => {
+  it("allow zooming until cells are large, at least twice", () => {
+    expect(getMaxZoom(100, viewport)).toBe(8);
+    expect(getMaxZoom(10, viewport)).toBe(2);
+    expect(getMaxZoom(10, { width: 0, height: 0 })).toBe(1);
+  });
+
+  it("keep the grid covering the viewport", () => {
+    expect(clampView({ zoom: 0.5, x: 50, y: 50 }, viewport, 4)).toEqual(
+      fitView
+    );
+    expect(clampView({ zoom: 9, x: -5000, y: 10 }, viewport, 4)).toEqual({
+      zoom: 4,
+      x: -1200,
+      y: 0,
+    });
+  });
+
+  it("keep the point under the pointer in place while zooming", () => {
+    const anchor = { x: 100, y: 60 };
+    const view = zoomViewAt(fitView, 2, anchor, viewport, 8);
+    expect(view.zoom).toBe(2);
+    // The grid point under the anchor, as a fraction of the grid
+    const before = { x: anchor.x / 400, y: anchor.y / 300 };
+    expect((anchor.x - view.x) / (400 * view.zoom)).toBeCloseTo(before.x);
+    expect((anchor.y - view.y) / (300 * view.zoom)).toBeCloseTo(before.y);
+    expect(zoomViewAt(view, 1, anchor, viewport, 8)).toEqual(fitView);
+  });
+
+  it("center on a point of the grid as far as the edges allow", () => {
+    const zoomed = { zoom: 4, x: 0, y: 0 };
+    expect(centerViewOn(zoomed, { x: 0.5, y: 0.5 }, viewport, 8)).toEqual({
+      zoom: 4,
+      x: -600,
+      y: -450,
+    });
+    expect(centerViewOn(zoomed, { x: 0, y: 1 }, viewport, 8)).toEqual({
+      zoom: 4,
+      x: 0,
+      y: -900,
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { Point } from "./grid";
+
+// How far a grid is zoomed in, and where its zoomed picture is moved to in a
+// viewport of the unzoomed picture's size, in CSS pixels
+export interface ZoomView {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+// Size of the viewport, which shows the whole grid when not zoomed in
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+// The whole grid, fitted to the viewport
+export const fitView: ZoomView = { zoom: 1, x: 0, y: 0 };
+
+// Zoomed in all the way, a cell is about this many pixels wide
+const maxCellPixels = 32;
+
+export function getMaxZoom(cols: number, viewport: ViewportSize): number {
+  if (viewport.width <= 0) return 1;
+  return Math.max(2, (maxCellPixels * cols) / viewport.width);
+}
+
+// Keeps the zoom within bounds and the viewport covered by the grid
+export function clampView(
+  view: ZoomView,
+  viewport: ViewportSize,
+  maxZoom: number
+): ZoomView {
+  const zoom = Math.min(maxZoom, Math.max(1, view.zoom));
+  return {
+    zoom,
+    x: Math.min(0, Math.max(viewport.width * (1 - zoom), view.x)),
+    y: Math.min(0, Math.max(viewport.height * (1 - zoom), view.y)),
+  };
+}
+
+// Zooms to `zoom`, keeping the point of the viewport at `anchor` in place
+export function zoomViewAt(
+  view: ZoomView,
+  zoom: number,
+  anchor: Point,
+  viewport: ViewportSize,
+  maxZoom: number
+): ZoomView {
+  const nextZoom = Math.min(maxZoom, Math.max(1, zoom));
+  const ratio = nextZoom / view.zoom;
+  return clampView(
+    {
+      zoom: nextZoom,
+      x: anchor.x - (anchor.x - view.x) * ratio,
+      y: anchor.y - (anchor.y - view.y) * ratio,
+    },
+    viewport,
+    maxZoom
+  );
+}
+
+// Moves the view so that `center`, a fraction of the grid's width and height,
+// lies in the middle of the viewport
+export function centerViewOn(
+  view: ZoomView,
+  center: Point,
+  viewport: ViewportSize,
+  maxZoom: number
+): ZoomView {
+  return clampView(
+    {
+      zoom: view.zoom,
+      x: viewport.width / 2 - center.x * viewport.width * view.zoom,
+      y: viewport.height / 2 - center.y * viewport.height * view.zoom,
+    },
+    viewport,
+    maxZoom
+  );
+}
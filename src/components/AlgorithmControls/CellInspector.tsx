@@ -0,0 +1,77 @@
+import { Point } from "../../algorithms/grid";
+
+export interface InspectorDetail {
+  label: string;
+  value: number | string | Point | null;
+}
+
+// A hovered cell and where to show its inspector, relative to the positioned
+// container of the canvas
+export interface HoveredCell {
+  cell: Point;
+  left: number;
+  top: number;
+}
+
+interface CellInspectorProps extends HoveredCell {
+  status: string;
+  details: InspectorDetail[];
+  // Shown below the details, e.g. when they are ahead of the grid
+  note?: string;
+}
+
+function formatValue(value: InspectorDetail["value"]): string {
+  if (value === null) return "—";
+  if (typeof value === "string") return value;
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `${Math.round(value * 100) / 100}` : "∞";
+  }
+  return `(${value.x}, ${value.y})`;
+}
+
+// Returns where to show the inspector for a pointer over the grid, inside the
+// positioned container the inspector is shown in
+export function getHoveredCell(
+  container: HTMLElement,
+  cell: Point,
+  clientX: number,
+  clientY: number
+): HoveredCell {
+  const containerRect = container.getBoundingClientRect();
+  return {
+    cell,
+    left: clientX - containerRect.left,
+    top: clientY - containerRect.top,
+  };
+}
+
+export default function CellInspector({
+  cell,
+  left,
+  top,
+  status,
+  details,
+  note,
+}: CellInspectorProps) {
+  return (
+    <div
+      className="rounded-box bg-base-300/90 pointer-events-none absolute z-10 p-2 font-mono text-xs shadow-md"
+      style={{ left: left + 16, top: top + 16 }}
+    >
+      <div className="font-bold">
+        ({cell.x}, {cell.y}) {status}
+      </div>
+      <table>
+        <tbody>
+          {details.map(({ label, value }) => (
+            <tr key={label}>
+              <td className="pr-3 opacity-60">{label}</td>
+              <td>{formatValue(value)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {note !== undefined && <div className="mt-1 opacity-60">{note}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import { RefObject, useEffect, useRef, useState } from "react";
+import { encodeGif, GifFrame } from "../../algorithms/gifEncoder";
+import {
+  getDefaultExportScale,
+  getExportScales,
+  gridPixelsToSvg,
+} from "../../algorithms/gridImage";
+import { downloadBlob } from "./downloadBlob";
+
+// A run the page can start over so that it is recorded from its first step
+export interface RecordableRun {
+  label: string;
+  disabled?: boolean;
+  start: () => void;
+}
+
+interface ExportMenuProps {
+  // The grid canvas, drawn one pixel per cell
+  canvasRef: RefObject<HTMLCanvasElement | null>;
+  cols: number;
+  rows: number;
+  // Exported files are named after it, such as "dijkstra.png"
+  fileName: string;
+  runs: RecordableRun[];
+  // Whether a started run is still changing the grid, path animation included
+  isRunning: () => boolean;
+}
+
+type AnimationFormat = "gif" | "webm";
+
+// Recording progress shown while a run plays or its GIF is encoded
+interface Recording {
+  format: AnimationFormat;
+  label: string;
+  frames: number;
+  encoding: boolean;
+}
+
+// Capture rate of GIFs, whose delays are in hundredths of a second
+const gifFrameMs = 40;
+const videoFps = 30;
+// How long the finished grid stays on screen at the end of an animation
+const finalHoldMs = 1500;
+
+const canRecordVideo =
+  typeof MediaRecorder !== "undefined" &&
+  typeof HTMLCanvasElement !== "undefined" &&
+  "captureStream" in HTMLCanvasElement.prototype &&
+  MediaRecorder.isTypeSupported("video/webm");
+
+function readPixels(canvas: HTMLCanvasElement): Uint8ClampedArray {
+  const ctx = canvas.getContext("2d")!;
+  return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+}
+
+function isSameImage(a: Uint8ClampedArray, b: Uint8ClampedArray): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+// A copy of the grid drawn scale pixels per cell, without smoothing
+function createUpscaledCanvas(
+  canvas: HTMLCanvasElement,
+  scale: number
+): HTMLCanvasElement {
+  const upscaled = document.createElement("canvas");
+  upscaled.width = canvas.width * scale;
+  upscaled.height = canvas.height * scale;
+  drawUpscaled(canvas, upscaled);
+  return upscaled;
+}
+
+function drawUpscaled(
+  canvas: HTMLCanvasElement,
+  upscaled: HTMLCanvasElement
+): void {
+  const ctx = upscaled.getContext("2d")!;
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(canvas, 0, 0, upscaled.width, upscaled.height);
+}
+
+export default function ExportMenu({
+  canvasRef,
+  cols,
+  rows,
+  fileName,
+  runs,
+  isRunning,
+}: ExportMenuProps) {
+  const [scale, setScale] = useState<number | null>(null);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  // Ends the recording in progress, saving what was captured so far
+  const finishRef = useRef<(() => void) | null>(null);
+  const frameRequestRef = useRef(0);
+
+  const scales = getExportScales(cols, rows);
+  const exportScale =
+    scale != null && scales.includes(scale)
+      ? scale
+      : getDefaultExportScale(cols, rows);
+
+  // Stop capturing once the page is gone
+  useEffect(() => () => cancelAnimationFrame(frameRequestRef.current), []);
+
+  function exportPng(): void {
+    const canvas = canvasRef.current;
+    if (canvas == null) return;
+    createUpscaledCanvas(canvas, exportScale).toBlob((blob) => {
+      if (blob != null) downloadBlob(blob, `${fileName}.png`);
+    }, "image/png");
+  }
+
+  function exportSvg(): void {
+    const canvas = canvasRef.current;
+    if (canvas == null) return;
+    const svg = gridPixelsToSvg(readPixels(canvas), cols, rows, exportScale);
+    downloadBlob(new Blob([svg], { type: "image/svg+xml" }), `${fileName}.svg`);
+  }
+
+  function startRecording(run: RecordableRun, format: AnimationFormat): void {
+    const canvas = canvasRef.current;
+    if (canvas == null) return;
+    if (format === "gif") {
+      recordGif(canvas, run);
+    } else {
+      recordVideo(canvas, run);
+    }
+  }
+
+  function recordGif(canvas: HTMLCanvasElement, run: RecordableRun): void {
+    const frames: GifFrame[] = [];
+    let lastCaptureAt = performance.now();
+
+    function capture(): void {
+      const now = performance.now();
+      const pixels = readPixels(canvas);
+      const last = frames[frames.length - 1];
+      if (last != null) last.delayMs += now - lastCaptureAt;
+      lastCaptureAt = now;
+      if (last == null || !isSameImage(last.pixels, pixels)) {
+        frames.push({ pixels, delayMs: 0 });
+      }
+    }
+
+    function finish(): void {
+      cancelAnimationFrame(frameRequestRef.current);
+      finishRef.current = null;
+      capture();
+      frames[frames.length - 1].delayMs += finalHoldMs;
+      setRecording((current) => current && { ...current, encoding: true });
+      // Let the page show the encoding state before the work starts
+      setTimeout(() => {
+        const gif = encodeGif(frames, cols, rows, exportScale);
+        downloadBlob(
+          new Blob([gif.buffer as ArrayBuffer], { type: "image/gif" }),
+          `${fileName}.gif`
+        );
+        setRecording(null);
+      }, 0);
+    }
+
+    function onFrame(): void {
+      if (!isRunning()) {
+        finish();
+        return;
+      }
+      if (performance.now() - lastCaptureAt >= gifFrameMs) {
+        capture();
+        setRecording(
+          (current) => current && { ...current, frames: frames.length }
+        );
+      }
+      frameRequestRef.current = requestAnimationFrame(onFrame);
+    }
+
+    run.start();
+    capture();
+    finishRef.current = finish;
+    setRecording({
+      format: "gif",
+      label: run.label,
+      frames: 1,
+      encoding: false,
+    });
+    frameRequestRef.current = requestAnimationFrame(onFrame);
+  }
+
+  function recordVideo(canvas: HTMLCanvasElement, run: RecordableRun): void {
+    const upscaled = createUpscaledCanvas(canvas, exportScale);
+    const recorder = new MediaRecorder(upscaled.captureStream(videoFps), {
+      mimeType: "video/webm",
+    });
+    const chunks: Blob[] = [];
+    let finishedAt: number | null = null;
+    let frames = 0;
+
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    recorder.onstop = () => {
+      downloadBlob(
+        new Blob(chunks, { type: "video/webm" }),
+        `${fileName}.webm`
+      );
+      setRecording(null);
+    };
+
+    function finish(): void {
+      cancelAnimationFrame(frameRequestRef.current);
+      finishRef.current = null;
+      drawUpscaled(canvas, upscaled);
+      recorder.stop();
+    }
+
+    function onFrame(): void {
+      const now = performance.now();
+      drawUpscaled(canvas, upscaled);
+      setRecording((current) => current && { ...current, frames: ++frames });
+      // Keep the finished grid in the video for a moment
+      if (finishedAt == null && !isRunning()) finishedAt = now;
+      if (finishedAt != null && now - finishedAt >= finalHoldMs) {
+        finish();
+        return;
+      }
+      frameRequestRef.current = requestAnimationFrame(onFrame);
+    }
+
+    recorder.start();
+    run.start();
+    finishRef.current = finish;
+    setRecording({
+      format: "webm",
+      label: run.label,
+      frames: 0,
+      encoding: false,
+    });
+    frameRequestRef.current = requestAnimationFrame(onFrame);
+  }
+
+  if (recording != null) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <span className="badge badge-error">
+          {recording.encoding ? "Encoding" : "Recording"}
+        </span>
+        <span>
+          {recording.label} as {recording.format.toUpperCase()},{" "}
+          {recording.frames} frames
+        </span>
+        <button
+          className="btn btn-ghost btn-xs"
+          disabled={recording.encoding}
+          onClick={() => finishRef.current?.()}
+        >
+          Stop and Save
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <details className="dropdown">
+      <summary className="btn btn-primary btn-sm">Export</summary>
+      <ul className="menu dropdown-content rounded-box bg-base-100 z-10 w-64 p-2 shadow-md">
+        <li className="menu-title">Scale</li>
+        <li>
+          <div className="join join-horizontal p-1">
+            {scales.map((option) => (
+              <button
+                key={option}
+                className={`join-item btn btn-xs ${option === exportScale ? "btn-primary" : ""}`}
+                onClick={() => setScale(option)}
+                title={`${cols * option}×${rows * option} pixels`}
+              >
+                {option}×
+              </button>
+            ))}
+          </div>
+        </li>
+        <li className="menu-title">Snapshot</li>
+        <li>
+          <button onClick={exportPng}>PNG image</button>
+        </li>
+        <li>
+          <button onClick={exportSvg}>SVG, one rect per cell</button>
+        </li>
+        <li className="menu-title">Record a full run</li>
+        {runs.flatMap((run) => [
+          <li
+            key={`${run.label}-gif`}
+            className={run.disabled ? "menu-disabled" : ""}
+          >
+            <button
+              disabled={run.disabled}
+              onClick={() => startRecording(run, "gif")}
+            >
+              {run.label} as GIF
+            </button>
+          </li>,
+          canRecordVideo && (
+            <li
+              key={`${run.label}-webm`}
+              className={run.disabled ? "menu-disabled" : ""}
+            >
+              <button
+                disabled={run.disabled}
+                onClick={() => startRecording(run, "webm")}
+              >
+                {run.label} as WebM
+              </button>
+            </li>
+          ),
+        ])}
+      </ul>
+    </details>
+  );
+}
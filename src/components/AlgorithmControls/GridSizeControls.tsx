@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { GridSize } from "../../algorithms/grid";
+
+interface GridSizeControlsProps {
+  cols: number;
+  rows: number;
+  min: number;
+  max: number;
+  // Mazes need odd sizes, so that their walls sit between cells
+  odd?: boolean;
+  onResize: (size: GridSize) => void;
+}
+
+// A typed size within bounds, rounded to an odd number when required
+function normalizeSize(
+  value: string,
+  min: number,
+  max: number,
+  odd: boolean
+): number {
+  let size = Math.min(max, Math.max(min, Math.round(Number(value)) || min));
+  if (odd && size % 2 === 0) size += size < max ? 1 : -1;
+  return size;
+}
+
+// Width and height inputs, applied together so that a grid is not resized
+// once per typed digit
+export default function GridSizeControls({
+  cols,
+  rows,
+  min,
+  max,
+  odd = false,
+  onResize,
+}: GridSizeControlsProps) {
+  const [width, setWidth] = useState(String(cols));
+  const [height, setHeight] = useState(String(rows));
+
+  // Follow sizes set elsewhere, such as by a loaded scenario
+  useEffect(() => {
+    setWidth(String(cols));
+    setHeight(String(rows));
+  }, [cols, rows]);
+
+  const size = {
+    cols: normalizeSize(width, min, max, odd),
+    rows: normalizeSize(height, min, max, odd),
+  };
+  const changed = size.cols !== cols || size.rows !== rows;
+
+  function applySize(): void {
+    setWidth(String(size.cols));
+    setHeight(String(size.rows));
+    if (changed) onResize(size);
+  }
+
+  return (
+    <form
+      className="flex flex-wrap items-center justify-center gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        applySize();
+      }}
+    >
+      <label className="flex items-center gap-2 text-sm font-semibold">
+        Width
+        <input
+          type="number"
+          min={min}
+          max={max}
+          step={odd ? 2 : 1}
+          value={width}
+          className="input input-primary input-sm w-20"
+          onChange={(e) => setWidth(e.target.value)}
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm font-semibold">
+        Height
+        <input
+          type="number"
+          min={min}
+          max={max}
+          step={odd ? 2 : 1}
+          value={height}
+          className="input input-primary input-sm w-20"
+          onChange={(e) => setHeight(e.target.value)}
+        />
+      </label>
+      <button
+        type="submit"
+        className="btn btn-primary btn-sm"
+        disabled={!changed}
+        title={`Between ${min} and ${max} cells${odd ? ", odd sizes only" : ""}`}
+      >
+        Resize
+      </button>
+      <span className="text-sm opacity-40">
+        {cols} x {rows}
+      </span>
+    </form>
+  );
+}
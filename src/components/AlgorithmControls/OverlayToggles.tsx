@@ -0,0 +1,58 @@
+import { getHeatColor } from "./SearchOverlay";
+
+interface OverlayTogglesProps {
+  heatmap: boolean;
+  tree: boolean;
+  onHeatmapChange: (heatmap: boolean) => void;
+  onTreeChange: (tree: boolean) => void;
+}
+
+export default function OverlayToggles({
+  heatmap,
+  tree,
+  onHeatmapChange,
+  onTreeChange,
+}: OverlayTogglesProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-4">
+      <label
+        className="label cursor-pointer gap-2"
+        title="Color every visited cell by its distance from the source"
+      >
+        <input
+          type="checkbox"
+          className="toggle toggle-primary toggle-sm"
+          checked={heatmap}
+          onChange={(e) => onHeatmapChange(e.target.checked)}
+        />
+        Distance heatmap
+      </label>
+      <label
+        className="label cursor-pointer gap-2"
+        title="Draw an arrow from every visited cell to its predecessor"
+      >
+        <input
+          type="checkbox"
+          className="toggle toggle-primary toggle-sm"
+          checked={tree}
+          onChange={(e) => onTreeChange(e.target.checked)}
+        />
+        Shortest-path tree
+      </label>
+      {heatmap && (
+        <span className="flex items-center gap-2 text-sm opacity-60">
+          near
+          <span
+            className="h-3 w-24 rounded"
+            style={{
+              background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1]
+                .map(getHeatColor)
+                .join(", ")})`,
+            }}
+          />
+          far
+        </span>
+      )}
+    </div>
+  );
+}
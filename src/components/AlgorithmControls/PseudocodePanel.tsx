@@ -0,0 +1,44 @@
+import { AlgorithmPhase } from "../../algorithms/algorithmEvents";
+import { PseudocodeLine } from "../../algorithms/pseudocode";
+
+interface PseudocodePanelProps {
+  title: string;
+  lines: PseudocodeLine[];
+  // Phases the last step went through, the last one being the current line
+  phases: AlgorithmPhase[];
+}
+
+export default function PseudocodePanel({
+  title,
+  lines,
+  phases,
+}: PseudocodePanelProps) {
+  const current = phases[phases.length - 1];
+
+  function getLineClass(phase?: AlgorithmPhase): string {
+    if (phase === undefined) return "";
+    if (phase === current) return "bg-primary text-primary-content";
+    if (phases.includes(phase)) return "bg-primary/20";
+    return "";
+  }
+
+  return (
+    <div className="card bg-base-200 w-full max-w-md shadow-md">
+      <div className="card-body p-4">
+        <h3 className="card-title text-base">{title}</h3>
+        <ol className="overflow-x-auto font-mono text-xs">
+          {lines.map(({ text, indent, phase }, i) => (
+            <li
+              key={i}
+              className={`rounded px-2 py-0.5 whitespace-pre transition-colors ${getLineClass(phase)}`}
+            >
+              <span className="mr-3 opacity-40">{i + 1}</span>
+              {"  ".repeat(indent)}
+              {text}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useMemo, useState } from "react";
+import { Point } from "../../algorithms/grid";
+
+export interface QueueEntry extends Point {
+  // Distance of a queued cell, left out by structures without one
+  value?: number;
+}
+
+interface QueuePanelProps {
+  title: string;
+  // Number of entries in the structure
+  size: number;
+  // Reads the first `count` entries in the order they leave the structure.
+  // Only called while the list is open.
+  getEntries: (count: number) => QueueEntry[];
+  // The structure and a count of its changes, which decide when the entries
+  // are read again
+  queue: object | null;
+  version: number;
+  // Whether the first entry is the one taken next
+  highlightNext: boolean;
+  // Size after every applied step, oldest first
+  sizes: number[];
+  note?: string;
+}
+
+// Rendering thousands of rows every frame would stall the animation
+const maxShownEntries = 50;
+
+function Sparkline({ sizes }: { sizes: number[] }) {
+  if (sizes.length < 2) return null;
+  const max = sizes.reduce((a, b) => Math.max(a, b), 1);
+  const points = sizes
+    .map(
+      (size, i) => `${(i / (sizes.length - 1)) * 100},${40 - (size / max) * 40}`
+    )
+    .join(" ");
+  return (
+    <svg
+      viewBox="0 0 100 40"
+      preserveAspectRatio="none"
+      className="text-primary h-10 w-full"
+    >
+      <polyline
+        points={points}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
+
+export default function QueuePanel({
+  title,
+  size,
+  getEntries,
+  queue,
+  version,
+  highlightNext,
+  sizes,
+  note,
+}: QueuePanelProps) {
+  const [open, setOpen] = useState(false);
+  const shown = useMemo(
+    () => (open ? getEntries(maxShownEntries) : []),
+    [open, queue, version]
+  );
+  const peakSize = sizes.reduce((a, b) => Math.max(a, b), 0);
+
+  return (
+    <div className="card bg-base-200 w-full max-w-md shadow-md">
+      <div className="card-body gap-2 p-4">
+        <h3 className="card-title text-base">
+          {title}
+          <span className="badge badge-primary">{size}</span>
+        </h3>
+        <Sparkline sizes={sizes} />
+        {sizes.length > 1 && (
+          <div className="text-xs opacity-60">
+            Size over {sizes.length} steps, peak {peakSize}
+          </div>
+        )}
+        <details open={open} onToggle={(e) => setOpen(e.currentTarget.open)}>
+          <summary className="cursor-pointer text-xs opacity-60">
+            {highlightNext ? "Next entries" : "Entries"}
+          </summary>
+          <ol className="max-h-48 overflow-y-auto font-mono text-xs">
+            {shown.map(({ x, y, value }, i) => (
+              <li
+                key={`${x},${y}`}
+                className={`flex justify-between rounded px-2 py-0.5 ${
+                  i === 0 && highlightNext
+                    ? "bg-primary text-primary-content"
+                    : ""
+                }`}
+              >
+                <span>
+                  ({x}, {y})
+                </span>
+                {value !== undefined && (
+                  <span>{Math.round(value * 100) / 100}</span>
+                )}
+              </li>
+            ))}
+            {size > shown.length && (
+              <li className="px-2 py-0.5 opacity-60">
+                … {size - shown.length} more
+              </li>
+            )}
+          </ol>
+        </details>
+        {note !== undefined && <div className="text-xs opacity-60">{note}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import {
+  formatStat,
+  RunStats,
+  runStatsColumns,
+  runStatsToCsv,
+} from "../../algorithms/runStats";
+import { downloadBlob } from "./downloadBlob";
+
+interface RunStatsTableProps {
+  runs: RunStats[];
+  onClear: () => void;
+}
+
+function downloadCsv(runs: RunStats[]): void {
+  const blob = new Blob([runStatsToCsv(runs)], { type: "text/csv" });
+  downloadBlob(blob, "run-stats.csv");
+}
+
+export default function RunStatsTable({ runs, onClear }: RunStatsTableProps) {
+  if (runs.length === 0) return null;
+
+  // Keep runs on the same grid next to each other, in the order grids appeared
+  const gridKeys = [...new Set(runs.map(({ gridKey }) => gridKey))];
+  const sortedRuns = gridKeys.flatMap((key) =>
+    runs.filter(({ gridKey }) => gridKey === key)
+  );
+
+  return (
+    <div className="flex w-full flex-col items-center gap-2">
+      <div className="w-full max-w-4xl overflow-x-auto">
+        <table className="table-zebra table-sm table">
+          <thead>
+            <tr>
+              {runStatsColumns.map(({ key, label }) => (
+                <th key={key}>{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedRuns.map((run, i) => (
+              <tr
+                key={i}
+                className={
+                  i > 0 && sortedRuns[i - 1].gridKey !== run.gridKey
+                    ? "border-primary border-t-2"
+                    : ""
+                }
+              >
+                {runStatsColumns.map(({ key }) => (
+                  <td key={key}>{formatStat(run[key])}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="join join-horizontal">
+        <button
+          className="join-item btn btn-primary btn-sm"
+          onClick={() => downloadCsv(sortedRuns)}
+        >
+          Export CSV
+        </button>
+        <button className="join-item btn btn-primary btn-sm" onClick={onClear}>
+          Clear Stats
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useRef, useState } from "react";
+import { useLocation } from "react-router-dom";
+import { Scenario, serializeScenario } from "../../algorithms/scenario";
+import {
+  encodeSharedSetup,
+  shareParam,
+  SharedSetup,
+} from "../../algorithms/shareLink";
+import { downloadBlob } from "./downloadBlob";
+
+interface ScenarioControlsProps {
+  // Name the downloaded file is saved under
+  fileName: string;
+  canSave: boolean;
+  getScenario: () => Scenario;
+  getSharedSetup: () => SharedSetup;
+  onFile: (file: File) => void;
+  // Why the last file or link could not be loaded
+  error: string | null;
+  onDismissError: () => void;
+}
+
+function downloadScenario(scenario: Scenario, fileName: string): void {
+  const blob = new Blob([serializeScenario(scenario)], {
+    type: "application/json",
+  });
+  downloadBlob(blob, fileName);
+}
+
+// A link to the page at `routePath` that restores the setup when opened
+function getShareUrl(routePath: string, setup: SharedSetup): string {
+  const { origin, pathname } = window.location;
+  const query = new URLSearchParams({
+    [shareParam]: encodeSharedSetup(setup),
+  });
+  return `${origin}${pathname}#${routePath}?${query}`;
+}
+
+// Handlers that load a scenario file dropped onto an element, such as a grid
+export function getScenarioDropHandlers(onFile: (file: File) => void) {
+  return {
+    onDragOver(event: React.DragEvent) {
+      event.preventDefault();
+    },
+    onDrop(event: React.DragEvent) {
+      event.preventDefault();
+      const file = event.dataTransfer.files[0];
+      if (file != null) onFile(file);
+    },
+  };
+}
+
+export default function ScenarioControls({
+  fileName,
+  canSave,
+  getScenario,
+  getSharedSetup,
+  onFile,
+  error,
+  onDismissError,
+}: ScenarioControlsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const location = useLocation();
+  // The last link made, shown for copying by hand if the clipboard refused it
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  async function copyShareLink(): Promise<void> {
+    const url = getShareUrl(location.pathname, getSharedSetup());
+    setShareUrl(url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+    } catch {
+      setLinkCopied(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="join join-horizontal">
+        <button
+          className="join-item btn btn-primary btn-sm"
+          disabled={!canSave}
+          onClick={() => downloadScenario(getScenario(), fileName)}
+          title="Download the grid and its settings as a JSON file"
+        >
+          Save Scenario
+        </button>
+        <button
+          className="join-item btn btn-primary btn-sm"
+          onClick={() => inputRef.current?.click()}
+          title="Open a saved scenario, or drop one onto the grid"
+        >
+          Load Scenario
+        </button>
+        <button
+          className="join-item btn btn-primary btn-sm"
+          disabled={!canSave}
+          onClick={copyShareLink}
+          title="Copy a link that opens this page with the same grid and settings"
+        >
+          Copy Link
+        </button>
+      </div>
+      {shareUrl != null && (
+        <div className="flex items-center gap-2 text-sm">
+          {linkCopied && <span className="badge badge-success">Copied</span>}
+          <input
+            className="input input-bordered input-xs w-72"
+            readOnly
+            value={shareUrl}
+            onFocus={(e) => e.target.select()}
+            aria-label="Link to this setup"
+          />
+          <button
+            className="btn btn-ghost btn-xs"
+            onClick={() => setShareUrl(null)}
+          >
+            Hide
+          </button>
+        </div>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file != null) onFile(file);
+          // Let the same file be picked again after fixing it
+          e.target.value = "";
+        }}
+      />
+      {error != null && (
+        <div role="alert" className="alert alert-error max-w-md py-2 text-sm">
+          <span>{error}</span>
+          <button className="btn btn-ghost btn-xs" onClick={onDismissError}>
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
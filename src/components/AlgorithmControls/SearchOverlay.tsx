@@ -0,0 +1,165 @@
+import { RefObject, useEffect, useRef } from "react";
+import { SearchFrontier, Search } from "../../algorithms/gridSearch";
+
+interface SearchOverlayProps {
+  // The grid canvas the overlay is laid over, in the same container
+  canvasRef: RefObject<HTMLCanvasElement | null>;
+  search: Search | null;
+  cols: number;
+  rows: number;
+  heatmap: boolean;
+  tree: boolean;
+  // Whether a cell is still painted as searched, so seeking back the timeline
+  // hides what later steps found
+  isSearched: (x: number, y: number) => boolean;
+  // Changes whenever the search advanced or was rewound
+  version: number;
+}
+
+// Pixels per cell, high enough for the arrows to stay legible
+function getCellSize(cols: number, rows: number): number {
+  return Math.max(4, Math.ceil(1400 / Math.max(cols, rows)));
+}
+
+// Blue for cells near the start of a frontier through to red for the farthest
+export function getHeatColor(t: number): string {
+  return `hsl(${240 - 240 * t} 85% 55%)`;
+}
+
+export default function SearchOverlay({
+  canvasRef,
+  search,
+  cols,
+  rows,
+  heatmap,
+  tree,
+  isSearched,
+  version,
+}: SearchOverlayProps) {
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+
+  function draw(): void {
+    const overlay = overlayRef.current;
+    const canvas = canvasRef.current;
+    const ctx = overlay?.getContext("2d");
+    if (overlay == null || canvas == null || ctx == null) return;
+
+    // Cover the content box of the grid canvas
+    overlay.style.left = `${canvas.offsetLeft + canvas.clientLeft}px`;
+    overlay.style.top = `${canvas.offsetTop + canvas.clientTop}px`;
+    overlay.style.width = `${canvas.clientWidth}px`;
+    overlay.style.height = `${canvas.clientHeight}px`;
+
+    const size = getCellSize(cols, rows);
+    overlay.width = cols * size;
+    overlay.height = rows * size;
+    ctx.clearRect(0, 0, overlay.width, overlay.height);
+    if (search == null) return;
+
+    const frontiers = [search.forward, search.reverse].filter(
+      (frontier): frontier is SearchFrontier => frontier != null
+    );
+    for (const frontier of frontiers) {
+      if (heatmap) drawHeatmap(ctx, frontier, size);
+      if (tree) drawTree(ctx, frontier, size);
+    }
+  }
+
+  function drawHeatmap(
+    ctx: CanvasRenderingContext2D,
+    { distances, visited }: SearchFrontier,
+    size: number
+  ): void {
+    let maxDistance = 0;
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        if (visited[y][x] && isSearched(x, y)) {
+          maxDistance = Math.max(maxDistance, distances[y][x]);
+        }
+      }
+    }
+
+    ctx.globalAlpha = 0.75;
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        if (!visited[y][x] || !isSearched(x, y)) continue;
+        ctx.fillStyle = getHeatColor(
+          maxDistance > 0 ? distances[y][x] / maxDistance : 0
+        );
+        ctx.fillRect(x * size, y * size, size, size);
+      }
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  // Arrows from every searched cell to its predecessor
+  function drawTree(
+    ctx: CanvasRenderingContext2D,
+    { visited, predecessors }: SearchFrontier,
+    size: number
+  ): void {
+    ctx.strokeStyle = "#000";
+    ctx.fillStyle = "#000";
+    ctx.globalAlpha = 0.6;
+    ctx.lineWidth = Math.max(1, size / 10);
+    const head = size / 4;
+
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        const predecessor = predecessors[y][x];
+        if (!visited[y][x] || !isSearched(x, y) || predecessor == null) {
+          continue;
+        }
+        if (predecessor.x === x && predecessor.y === y) continue;
+
+        // Jump point search links jump points far apart, so scale to the gap
+        const fromX = (x + 0.5) * size;
+        const fromY = (y + 0.5) * size;
+        const toX = (predecessor.x + 0.5) * size;
+        const toY = (predecessor.y + 0.5) * size;
+        const angle = Math.atan2(toY - fromY, toX - fromX);
+        const length = Math.hypot(toX - fromX, toY - fromY) - size * 0.3;
+        const tipX = fromX + Math.cos(angle) * length;
+        const tipY = fromY + Math.sin(angle) * length;
+
+        ctx.beginPath();
+        ctx.moveTo(fromX, fromY);
+        ctx.lineTo(tipX, tipY);
+        ctx.stroke();
+
+        ctx.beginPath();
+        ctx.moveTo(tipX, tipY);
+        ctx.lineTo(
+          tipX - head * Math.cos(angle - Math.PI / 6),
+          tipY - head * Math.sin(angle - Math.PI / 6)
+        );
+        ctx.lineTo(
+          tipX - head * Math.cos(angle + Math.PI / 6),
+          tipY - head * Math.sin(angle + Math.PI / 6)
+        );
+        ctx.closePath();
+        ctx.fill();
+      }
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  useEffect(draw, [search, version, heatmap, tree, cols, rows]);
+
+  // Follow the grid canvas when the layout changes its size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (canvas == null) return;
+    const observer = new ResizeObserver(() => draw());
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [search, heatmap, tree, cols, rows]);
+
+  return (
+    <canvas
+      ref={overlayRef}
+      className="pointer-events-none absolute"
+      hidden={!heatmap && !tree}
+    />
+  );
+}
@@ -0,0 +1,39 @@
+import { speedPresets } from "../../algorithms/stepScheduler";
+
+interface SpeedControlProps {
+  stepsPerSecond: number;
+  onChange: (stepsPerSecond: number) => void;
+}
+
+export default function SpeedControl({
+  stepsPerSecond,
+  onChange,
+}: SpeedControlProps) {
+  const index = Math.max(
+    0,
+    speedPresets.findIndex((preset) => preset.stepsPerSecond === stepsPerSecond)
+  );
+
+  return (
+    <label
+      className="flex items-center gap-2 text-sm font-semibold"
+      title="Steps taken per second while playing"
+    >
+      Speed
+      <input
+        type="range"
+        min={0}
+        max={speedPresets.length - 1}
+        step={1}
+        value={index}
+        className="range range-primary range-xs w-40"
+        onChange={(e) =>
+          onChange(speedPresets[Number(e.target.value)].stepsPerSecond)
+        }
+      />
+      <span className="w-24 text-xs opacity-70">
+        {speedPresets[index].label}
+      </span>
+    </label>
+  );
+}
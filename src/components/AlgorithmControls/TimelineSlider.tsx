@@ -0,0 +1,41 @@
+interface TimelineSliderProps {
+  label: string;
+  position: number;
+  length: number;
+  onSeek: (position: number) => void;
+  disabled?: boolean;
+}
+
+export default function TimelineSlider({
+  label,
+  position,
+  length,
+  onSeek,
+  disabled = false,
+}: TimelineSliderProps) {
+  return (
+    <div className="flex w-full max-w-xl items-center justify-center gap-2">
+      <button
+        className="btn btn-primary btn-sm"
+        disabled={disabled || position === 0}
+        onClick={() => onSeek(position - 1)}
+        title="Undo the last step"
+      >
+        Step Back
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={length}
+        value={position}
+        disabled={disabled || length === 0}
+        className="range range-primary range-sm flex-1"
+        onChange={(e) => onSeek(Number(e.target.value))}
+        title={`Jump to any recorded step of ${label}`}
+      />
+      <span className="w-36 text-sm font-semibold opacity-60">
+        Step {position} / {length}
+      </span>
+    </div>
+  );
+}
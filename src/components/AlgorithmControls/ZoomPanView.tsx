@@ -0,0 +1,416 @@
+import { ReactNode, RefObject, useEffect, useRef, useState } from "react";
+import { Point } from "../../algorithms/grid";
+import {
+  centerViewOn,
+  clampView,
+  fitView,
+  getMaxZoom,
+  ViewportSize,
+  ZoomView,
+  zoomViewAt,
+} from "../../algorithms/zoomView";
+
+interface ZoomPanViewProps {
+  // The grid canvas among the children, drawn one pixel per cell
+  canvasRef: RefObject<HTMLCanvasElement | null>;
+  cols: number;
+  rows: number;
+  view: ZoomView;
+  onViewChange: (view: ZoomView) => void;
+  // The grid canvas and the overlays drawn over it, zoomed together
+  children: ReactNode;
+}
+
+// Where a pan or pinch started
+interface Gesture {
+  center: Point;
+  // Distance between the two fingers of a pinch
+  distance: number;
+  view: ZoomView;
+}
+
+// Zoom change of a button press, and per pixel of wheel scrolling
+const zoomStep = 1.5;
+const wheelZoomRate = 0.002;
+const minimapWidth = 140;
+// Tall grids are narrowed to keep them about this high when fitted to view
+const maxFittedHeight = 700;
+// How often the minimap copies the grid while zoomed in
+const minimapIntervalMs = 100;
+
+function getTouchCenter(a: Touch, b: Touch): Point {
+  return {
+    x: (a.clientX + b.clientX) / 2,
+    y: (a.clientY + b.clientY) / 2,
+  };
+}
+
+function getTouchDistance(a: Touch, b: Touch): number {
+  return Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+}
+
+function isTextInput(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    target.closest("input, textarea, select") != null
+  );
+}
+
+// Client rect of the cells of a grid canvas, inside its border, as zoomed
+export function getGridRect(canvas: HTMLCanvasElement): DOMRect {
+  const rect = canvas.getBoundingClientRect();
+  const scale = canvas.offsetWidth > 0 ? rect.width / canvas.offsetWidth : 1;
+  return new DOMRect(
+    rect.left + canvas.clientLeft * scale,
+    rect.top + canvas.clientTop * scale,
+    canvas.clientWidth * scale,
+    canvas.clientHeight * scale
+  );
+}
+
+// Zooms its children with the mouse wheel, a pinch or the buttons, and pans
+// them by dragging with the middle button or with space held. Pointer
+// positions on a zoomed canvas still map to cells through its client rect.
+export default function ZoomPanView({
+  canvasRef,
+  cols,
+  rows,
+  view,
+  onViewChange,
+  children,
+}: ZoomPanViewProps) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const controlsRef = useRef<HTMLDivElement>(null);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  // The latest view, ahead of the render for events in quick succession
+  const viewRef = useRef(view);
+  const dragRef = useRef<Gesture | null>(null);
+  const pinchRef = useRef<Gesture | null>(null);
+  const hoveredRef = useRef(false);
+  const [panning, setPanning] = useState(false);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+
+  const zoomedIn = view.zoom > 1;
+
+  function getViewport(): ViewportSize {
+    return {
+      width: viewportRef.current?.clientWidth ?? 0,
+      height: viewportRef.current?.clientHeight ?? 0,
+    };
+  }
+
+  function changeView(next: ZoomView): void {
+    const viewport = getViewport();
+    const clamped = clampView(next, viewport, getMaxZoom(cols, viewport));
+    const current = viewRef.current;
+    if (
+      clamped.zoom === current.zoom &&
+      clamped.x === current.x &&
+      clamped.y === current.y
+    ) {
+      return;
+    }
+    viewRef.current = clamped;
+    onViewChange(clamped);
+  }
+
+  // Zoom keeping the grid under a client position in place
+  function zoomAt(zoom: number, clientX: number, clientY: number): void {
+    const viewport = viewportRef.current;
+    if (viewport == null) return;
+    const rect = viewport.getBoundingClientRect();
+    const size = getViewport();
+    const next = zoomViewAt(
+      viewRef.current,
+      zoom,
+      { x: clientX - rect.left, y: clientY - rect.top },
+      size,
+      getMaxZoom(cols, size)
+    );
+    viewRef.current = next;
+    onViewChange(next);
+  }
+
+  function zoomByStep(factor: number): void {
+    const viewport = viewportRef.current;
+    if (viewport == null) return;
+    const rect = viewport.getBoundingClientRect();
+    zoomAt(
+      viewRef.current.zoom * factor,
+      rect.left + rect.width / 2,
+      rect.top + rect.height / 2
+    );
+  }
+
+  function drawMinimap(): void {
+    const canvas = canvasRef.current;
+    const minimap = minimapRef.current;
+    const ctx = minimap?.getContext("2d");
+    if (canvas == null || minimap == null || ctx == null) return;
+
+    const height = Math.max(1, Math.round((minimapWidth * rows) / cols));
+    if (minimap.width !== minimapWidth || minimap.height !== height) {
+      minimap.width = minimapWidth;
+      minimap.height = height;
+    }
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(canvas, 0, 0, minimap.width, minimap.height);
+
+    // Outline the part of the grid in view
+    const { zoom, x, y } = viewRef.current;
+    const viewport = getViewport();
+    if (viewport.width <= 0 || viewport.height <= 0) return;
+    ctx.strokeStyle = getComputedStyle(document.documentElement)
+      .getPropertyValue("--color-accent")
+      .trim();
+    ctx.lineWidth = 2;
+    ctx.strokeRect(
+      (-x / (viewport.width * zoom)) * minimap.width,
+      (-y / (viewport.height * zoom)) * minimap.height,
+      minimap.width / zoom,
+      minimap.height / zoom
+    );
+  }
+
+  // Center the view on the part of the grid picked on the minimap
+  function handleMinimapPointer(event: React.MouseEvent<HTMLCanvasElement>) {
+    if ((event.buttons & 1) === 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const viewport = getViewport();
+    const next = centerViewOn(
+      viewRef.current,
+      {
+        x: (event.clientX - rect.left) / rect.width,
+        y: (event.clientY - rect.top) / rect.height,
+      },
+      viewport,
+      getMaxZoom(cols, viewport)
+    );
+    viewRef.current = next;
+    onViewChange(next);
+  }
+
+  useEffect(() => {
+    viewRef.current = view;
+    drawMinimap();
+  }, [view]);
+
+  // A grid of another size starts out fitted to the viewport
+  useEffect(() => {
+    viewRef.current = fitView;
+    onViewChange(fitView);
+  }, [cols, rows]);
+
+  // Keep the view within the grid when the viewport changes its size
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (viewport == null) return;
+    const observer = new ResizeObserver(() => changeView(viewRef.current));
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, [cols, rows]);
+
+  // The grid changes as algorithms run, so the minimap follows it
+  useEffect(() => {
+    if (!zoomedIn) return;
+    drawMinimap();
+    const interval = setInterval(drawMinimap, minimapIntervalMs);
+    return () => clearInterval(interval);
+  }, [zoomedIn, cols, rows]);
+
+  // Wheel, pinch and drag gestures, handled before they reach the canvas
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (viewport == null) return;
+
+    function isOnControls(target: EventTarget | null): boolean {
+      return target instanceof Node && !!controlsRef.current?.contains(target);
+    }
+
+    // Zoomed out, the wheel scrolls the page unless Ctrl or Meta is held,
+    // which trackpads also report for a pinch
+    function handleWheel(event: WheelEvent): void {
+      if (isOnControls(event.target)) return;
+      const zoomKey = event.ctrlKey || event.metaKey;
+      if (viewRef.current.zoom <= 1 && !zoomKey) return;
+      event.preventDefault();
+      zoomAt(
+        viewRef.current.zoom * Math.exp(-event.deltaY * wheelZoomRate),
+        event.clientX,
+        event.clientY
+      );
+    }
+
+    function handleMouseDown(event: MouseEvent): void {
+      const panButton = event.button === 1 || (event.button === 0 && spaceHeld);
+      if (!panButton || isOnControls(event.target)) return;
+      // Keep the canvas from drawing, and the browser from autoscrolling
+      event.preventDefault();
+      event.stopPropagation();
+      dragRef.current = {
+        center: { x: event.clientX, y: event.clientY },
+        distance: 0,
+        view: viewRef.current,
+      };
+      setPanning(true);
+    }
+
+    function handleMouseMove(event: MouseEvent): void {
+      const drag = dragRef.current;
+      if (drag == null) return;
+      changeView({
+        zoom: drag.view.zoom,
+        x: drag.view.x + event.clientX - drag.center.x,
+        y: drag.view.y + event.clientY - drag.center.y,
+      });
+    }
+
+    function handleMouseUp(): void {
+      if (dragRef.current == null) return;
+      dragRef.current = null;
+      setPanning(false);
+    }
+
+    function handleTouchStart(event: TouchEvent): void {
+      if (event.touches.length < 2 || isOnControls(event.target)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      const [a, b] = [event.touches[0], event.touches[1]];
+      pinchRef.current = {
+        center: getTouchCenter(a, b),
+        distance: getTouchDistance(a, b),
+        view: viewRef.current,
+      };
+    }
+
+    // Zoom with the change in distance between the fingers, and pan along
+    // with their center
+    function handleTouchMove(event: TouchEvent): void {
+      const pinch = pinchRef.current;
+      if (pinch == null || event.touches.length < 2) return;
+      event.preventDefault();
+      event.stopPropagation();
+      const [a, b] = [event.touches[0], event.touches[1]];
+      const center = getTouchCenter(a, b);
+      const rect = viewport!.getBoundingClientRect();
+      const size = getViewport();
+      const zoomed = zoomViewAt(
+        pinch.view,
+        (pinch.view.zoom * getTouchDistance(a, b)) /
+          Math.max(1, pinch.distance),
+        { x: pinch.center.x - rect.left, y: pinch.center.y - rect.top },
+        size,
+        getMaxZoom(cols, size)
+      );
+      changeView({
+        zoom: zoomed.zoom,
+        x: zoomed.x + center.x - pinch.center.x,
+        y: zoomed.y + center.y - pinch.center.y,
+      });
+    }
+
+    function handleTouchEnd(event: TouchEvent): void {
+      if (event.touches.length < 2) pinchRef.current = null;
+    }
+
+    function handleKeyDown(event: KeyboardEvent): void {
+      if (event.key !== " " || !hoveredRef.current) return;
+      if (isTextInput(event.target)) return;
+      // Space would otherwise scroll the page
+      event.preventDefault();
+      if (!event.repeat) setSpaceHeld(true);
+    }
+
+    function handleKeyUp(event: KeyboardEvent): void {
+      if (event.key === " ") setSpaceHeld(false);
+    }
+
+    const active = { passive: false, capture: true };
+    viewport.addEventListener("wheel", handleWheel, active);
+    viewport.addEventListener("mousedown", handleMouseDown, true);
+    viewport.addEventListener("touchstart", handleTouchStart, active);
+    viewport.addEventListener("touchmove", handleTouchMove, active);
+    viewport.addEventListener("touchend", handleTouchEnd, true);
+    viewport.addEventListener("touchcancel", handleTouchEnd, true);
+    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("mouseup", handleMouseUp);
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    return () => {
+      viewport.removeEventListener("wheel", handleWheel, active);
+      viewport.removeEventListener("mousedown", handleMouseDown, true);
+      viewport.removeEventListener("touchstart", handleTouchStart, active);
+      viewport.removeEventListener("touchmove", handleTouchMove, active);
+      viewport.removeEventListener("touchend", handleTouchEnd, true);
+      viewport.removeEventListener("touchcancel", handleTouchEnd, true);
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", handleMouseUp);
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+    };
+  });
+
+  return (
+    <div
+      ref={viewportRef}
+      className="relative mx-auto w-full touch-none overflow-hidden"
+      style={{ maxWidth: (maxFittedHeight * cols) / rows }}
+      onMouseEnter={() => (hoveredRef.current = true)}
+      onMouseLeave={() => (hoveredRef.current = false)}
+    >
+      <div
+        className={`relative origin-top-left ${
+          panning || spaceHeld ? "[&_canvas]:cursor-grab" : ""
+        }`}
+        style={{
+          transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+        }}
+      >
+        {children}
+      </div>
+      <div
+        ref={controlsRef}
+        className="absolute right-2 bottom-2 flex flex-col items-end gap-2"
+      >
+        {zoomedIn && (
+          <canvas
+            ref={minimapRef}
+            className="cursor-crosshair rounded border-2 border-primary bg-base-100 shadow-md"
+            style={{ width: minimapWidth, imageRendering: "pixelated" }}
+            onMouseDown={handleMinimapPointer}
+            onMouseMove={handleMinimapPointer}
+            title="Click or drag to move the view"
+          />
+        )}
+        <div className="join join-horizontal shadow-md">
+          <button
+            className="join-item btn btn-xs"
+            disabled={!zoomedIn}
+            onClick={() => zoomByStep(1 / zoomStep)}
+            title="Zoom out"
+          >
+            −
+          </button>
+          <span className="join-item btn btn-xs pointer-events-none w-14">
+            {Math.round(view.zoom * 100)}%
+          </span>
+          <button
+            className="join-item btn btn-xs"
+            onClick={() => zoomByStep(zoomStep)}
+            title="Zoom in, or use Ctrl and the mouse wheel or a pinch"
+          >
+            +
+          </button>
+          <button
+            className="join-item btn btn-xs"
+            disabled={!zoomedIn}
+            onClick={() => changeView(fitView)}
+            title="Fit the whole grid in view. Drag with the middle button or with space held to pan."
+          >
+            Fit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
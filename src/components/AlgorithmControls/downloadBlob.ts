@@ -0,0 +1,10 @@
+// Saves the blob as a file through a temporary link
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // The browser starts the download after the click returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
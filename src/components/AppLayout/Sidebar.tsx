@@ -31,6 +31,16 @@ export default function Sidebar(): React.JSX.Element {
                     Dijkstra
                   </NavLink>
                 </li>
+                <li>
+                  <NavLink
+                    to="/pathfinding/race"
+                    className={({ isActive }) =>
+                      isActive ? "bg-base-content text-base-100" : ""
+                    }
+                  >
+                    Algorithm Race
+                  </NavLink>
+                </li>
               </ul>
             </details>
           </li>
@@ -1,28 +1,100 @@
 import { useRef, useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+	AlgorithmEvent,
+	AlgorithmPhase,
+} from "../../algorithms/algorithmEvents";
+import {
+	AlgorithmRunner,
+	createAlgorithmRunner,
+} from "../../algorithms/algorithmRunner";
+import { createGrid, GridSize, Point } from "../../algorithms/grid";
+import { resizeLayout } from "../../algorithms/gridLayout";
+import { createSearch, Search } from "../../algorithms/gridSearch";
+import { createKruskalMaze, KruskalMaze } from "../../algorithms/kruskalMaze";
+import { defaultMovement, Movement } from "../../algorithms/movement";
+import {
+	getSearchPseudocode,
+	kruskalPseudocode,
+} from "../../algorithms/pseudocode";
+import { createSeed, createSeededRandom } from "../../algorithms/random";
+import MovementSelect from "../Pathfinding/MovementSelect";
+import {
+	createRunMeasurements,
+	getGridKey,
+	RunStats,
+} from "../../algorithms/runStats";
+import {
+	getMazeScenarioError,
+	readScenarioFile,
+	Scenario,
+} from "../../algorithms/scenario";
+import { SearchStatus } from "../../algorithms/searchStatus";
+import {
+	decodeSharedSetup,
+	shareParam,
+	SharedSetup,
+} from "../../algorithms/shareLink";
+import { createStepScheduler } from "../../algorithms/stepScheduler";
+import { createTimeline, Timeline } from "../../algorithms/timeline";
+import { fitView, ZoomView } from "../../algorithms/zoomView";
+import CellInspector, {
+	getHoveredCell,
+	HoveredCell,
+	InspectorDetail,
+} from "../AlgorithmControls/CellInspector";
+import ExportMenu from "../AlgorithmControls/ExportMenu";
+import GridSizeControls from "../AlgorithmControls/GridSizeControls";
+import OverlayToggles from "../AlgorithmControls/OverlayToggles";
+import PseudocodePanel from "../AlgorithmControls/PseudocodePanel";
+import QueuePanel from "../AlgorithmControls/QueuePanel";
+import RunStatsTable from "../AlgorithmControls/RunStatsTable";
+import ScenarioControls, {
+	getScenarioDropHandlers,
+} from "../AlgorithmControls/ScenarioControls";
+import SearchOverlay from "../AlgorithmControls/SearchOverlay";
+import SpeedControl from "../AlgorithmControls/SpeedControl";
+import TimelineSlider from "../AlgorithmControls/TimelineSlider";
+import ZoomPanView, { getGridRect } from "../AlgorithmControls/ZoomPanView";
 
 interface cellType {
-	status: "blocked" | "passage" | "frontier" | "visited" | "source" | "target" | "shortestPath";
+	status: "blocked" | "passage" | "frontier" | "visited" | "source" | "target" | "shortestPath" | "reachable";
 }
 
-function shuffleArray(array: unknown[]): void {
-	for (let i = array.length - 1; i > 0; i--) {
-		const j = Math.floor(Math.random() * (i + 1));
-		[array[i], array[j]] = [array[j], array[i]];
-	}
+// Search progress restored together with the cells when seeking the timeline
+interface SearchSnapshot {
+	status: SearchStatus;
+	phases: AlgorithmPhase[];
+	queueSize: number;
+}
+
+interface MazeSnapshot {
+	phases: AlgorithmPhase[];
+	wallCount: number;
+}
+
+// Steps per second Kruskal and Dijkstra play at until the speed is changed
+const defaultSpeed = 3000;
+
+const minMazeSize = 5;
+const maxMazeSize = 251;
+
+interface KruskalMazeGenerationProps {
+	// Called whenever a run starts, finds a path or proves the target unreachable
+	onSearchStatusChange?: (status: SearchStatus) => void;
 }
 
 function getVar(name: string) {
   return getComputedStyle(document.documentElement).getPropertyValue(name);
 }
 
-export default function KruskalMazeGeneration() {
+export default function KruskalMazeGeneration({ onSearchStatusChange }: KruskalMazeGenerationProps) {
 	/* ==== STATES AND REFS ==== */
 	const [cols, setCols] = useState(99);
 	const [rows, setRows] = useState(99);
 	const [source, setSource] = useState<{ x: number; y: number } | null>(null);
 	const [target, setTarget] = useState<{ x: number; y: number } | null>(null);
-	const [dijkstraChunkSize, setDijkstraChunkSize] = useState(1);
-	const [kruskalChunkSize, setKruskalChunkSize] = useState(1);
+	const [speed, setSpeed] = useState(defaultSpeed);
 	const [dijkstraRunning, setDijkstraRunning] = useState(false);
 	const [kruskalRunning, setKruskalRunning] = useState(false);
 	const [dijkstraPaused, setDijkstraPaused] = useState(false);
@@ -32,24 +104,45 @@ export default function KruskalMazeGeneration() {
 		height: typeof window !== "undefined" ? window.innerHeight : 0,
 	});
 	const [drawingMode, setDrawingMode] = useState("");
-	const [numGroups, setNumGroups] = useState(0);
+	const [movement, setMovement] = useState<Movement>(defaultMovement);
+	const [searchStatus, setSearchStatus] = useState<SearchStatus>("idle");
+	const [kruskalTimeline, setKruskalTimeline] = useState({ position: 0, length: 0 });
+	const [dijkstraTimeline, setDijkstraTimeline] = useState({ position: 0, length: 0 });
+	const [kruskalPhases, setKruskalPhases] = useState<AlgorithmPhase[]>([]);
+	const [dijkstraPhases, setDijkstraPhases] = useState<AlgorithmPhase[]>([]);
+	const [hoveredCell, setHoveredCell] = useState<HoveredCell | null>(null);
+	const [showHeatmap, setShowHeatmap] = useState(false);
+	const [showTree, setShowTree] = useState(false);
+	const [view, setView] = useState<ZoomView>(fitView);
+	const [runs, setRuns] = useState<RunStats[]>([]);
+	const [scenarioError, setScenarioError] = useState<string | null>(null);
+	const [searchParams] = useSearchParams();
+	const sharedSetup = searchParams.get(shareParam);
 
 	/* ==== REFS ==== */
 	const canvasRef = useRef<HTMLCanvasElement>(null);
-	const cellsRef = useRef<Array<Array<cellType & { groupId?: number }>>>([]);
-	const wallsListRef = useRef<Array<{ x: number; y: number }>>([]);
-	const distancesRef = useRef<number[][]>([]);
-	const visitedRef = useRef<boolean[][]>([]);
-	const predecessorsRef = useRef<Array<Array<{ x: number; y: number }>>>([]);
-	const dijkstraQueueRef = useRef<Array<{ x: number; y: number; dist: number }>>([]);
-	const kruskalRunningRef = useRef(false);
-	const dijkstraRunningRef = useRef(false);
-	const kruskalChunkSizeRef = useRef(kruskalChunkSize);
-	const dijkstraChunkSizeRef = useRef(dijkstraChunkSize);
+	// Positions the tooltips and inspector, which are not zoomed with the grid
+	const containerRef = useRef<HTMLDivElement>(null);
+	const cellsRef = useRef<cellType[][]>([]);
+	const kruskalMazeRef = useRef<KruskalMaze | null>(null);
+	const kruskalRunnerRef = useRef<AlgorithmRunner | null>(null);
+	const dijkstraSearchRef = useRef<Search | null>(null);
+	const dijkstraRunnerRef = useRef<AlgorithmRunner | null>(null);
+	const kruskalTimelineRef = useRef(createTimeline<cellType["status"], MazeSnapshot>());
+	const dijkstraTimelineRef = useRef(createTimeline<cellType["status"], SearchSnapshot>());
+	// Pseudocode lines reached by the step being taken
+	const phasesRef = useRef<AlgorithmPhase[]>([]);
+	// Measurements of the current runs, recorded once they finish
+	const mazeRunRef = useRef(createRunMeasurements());
+	const dijkstraRunRef = useRef(createRunMeasurements());
+	// Plays Kruskal and then Dijkstra, never both at once
+	const schedulerRef = useRef(createStepScheduler(defaultSpeed));
 	const shortestPathAnimatingRef = useRef(false);
-
-	const groupParentsRef = useRef<Map<number, number>>(new Map());
-	const groupSizesRef = useRef<Map<number, number>>(new Map());
+	const searchStatusRef = useRef<SearchStatus>("idle");
+	// Loaded once the grid has been rebuilt at the scenario's size
+	const pendingSetupRef = useRef<SharedSetup | null>(null);
+	// Seed the current maze was grown from, null for a maze read from a file
+	const mazeSeedRef = useRef<number | null>(null);
 
 	/* ==== GRID AND DRAWING LOGIC ==== */
 	function drawCell(x: number, y: number, status: cellType["status"]): void {
@@ -77,10 +170,53 @@ export default function KruskalMazeGeneration() {
       case "shortestPath":
         ctx.fillStyle = getVar("--color-secondary");
         break;
+      case "reachable":
+        // Cells reachable from the source once the target proved unreachable
+        ctx.fillStyle = getVar("--color-base-100");
+        ctx.fillRect(x, y, 1, 1);
+        ctx.globalAlpha = 0.35;
+        ctx.fillStyle = getVar("--color-error");
+        break;
       default:
         ctx.fillStyle = "#000";
 		}
 		ctx.fillRect(x, y, 1, 1);
+		ctx.globalAlpha = 1;
+	}
+
+	// Change a cell on behalf of an algorithm, recording it in its timeline
+	function setCellStatus(
+		timeline: Timeline<cellType["status"], unknown>,
+		x: number,
+		y: number,
+		status: cellType["status"],
+		draw = true
+	): void {
+		const cell = cellsRef.current[y][x];
+		timeline.record(x, y, cell.status, status);
+		cell.status = status;
+		if (draw) drawCell(x, y, status);
+	}
+
+	// Undo or redo recorded steps, skipping cells edited since
+	function seekTimeline(timeline: Timeline<cellType["status"], unknown>, position: number): void {
+		shortestPathAnimatingRef.current = false;
+		timeline.seek(position, (x, y, expected, next) => {
+			const cell = cellsRef.current[y][x];
+			if (cell.status !== expected) return;
+			cell.status = next;
+			drawCell(x, y, next);
+		});
+	}
+
+	function syncTimelines(): void {
+		const kruskal = kruskalTimelineRef.current;
+		const dijkstra = dijkstraTimelineRef.current;
+		setKruskalTimeline({ position: kruskal.position, length: kruskal.length });
+		setDijkstraTimeline({ position: dijkstra.position, length: dijkstra.length });
+		// The unrecorded first step of the maze is its initialization
+		setKruskalPhases(kruskal.current?.phases ?? ["init"]);
+		setDijkstraPhases(dijkstra.current?.phases ?? []);
 	}
 
 	/* ==== CANVAS SETUP AND OBSERVERS ==== */
@@ -92,6 +228,11 @@ export default function KruskalMazeGeneration() {
 		canvas.height = rows;
 
 		clearMaze();
+		const setup = pendingSetupRef.current;
+		if (setup !== null) {
+			pendingSetupRef.current = null;
+			loadSetup(setup);
+		}
 
 		const observer = new MutationObserver(() => {
 			cellsRef.current.forEach((row, y) => row.forEach((cell, x) => drawCell(x, y, cell.status)));
@@ -104,13 +245,18 @@ export default function KruskalMazeGeneration() {
 		return () => observer.disconnect();
 	}, [rows, cols]);
 
-	useEffect(() => {
-		dijkstraChunkSizeRef.current = dijkstraChunkSize;
-	}, [dijkstraChunkSize]);
+	useEffect(() => () => schedulerRef.current.stop(), []);
 
+	// Restore the setup of an opened link
 	useEffect(() => {
-		kruskalChunkSizeRef.current = kruskalChunkSize;
-	}, [kruskalChunkSize]);
+		if (sharedSetup === null) return;
+		const result = decodeSharedSetup(sharedSetup);
+		if (result.ok) {
+			requestSetup(result.setup);
+		} else {
+			setScenarioError(result.error);
+		}
+	}, [sharedSetup]);
 
 	useEffect(() => {
 		if (source !== null && target !== null) {
@@ -118,280 +264,280 @@ export default function KruskalMazeGeneration() {
 		}
 	}, [source, target]);
 
-	/* ==== KRUSKAL ALGORITHM LOGIC (CORRECTED) ==== */
-	function kruskalInitialization(): void {
-		const cells = cellsRef.current;
-		const walls: Array<{ x: number; y: number }> = [];
-
-		groupParentsRef.current = new Map<number, number>();
-		groupSizesRef.current = new Map<number, number>();
-		let groupCounter = 0;
-
-		for (let y = 0; y < rows; y++) {
-			for (let x = 0; x < cols; x++) {
-				if (y % 2 === 0 && x % 2 === 0) {
-					cells[y][x].status = "passage";
-					cells[y][x].groupId = groupCounter;
-					drawCell(x, y, "passage");
-
-					groupParentsRef.current.set(groupCounter, groupCounter);
-					groupSizesRef.current.set(groupCounter, 1);
-					groupCounter++;
-
-					if (x < cols - 1) walls.push({ x: x + 1, y });
-					if (y < rows - 1) walls.push({ x, y: y + 1 });
-				} else {
-					cells[y][x].status = "blocked";
-					drawCell(x, y, "blocked");
-				}
-			}
-		}
-
-		shuffleArray(walls);
-		wallsListRef.current = walls;
-		setNumGroups(groupCounter);
+	/* ==== KRUSKAL ALGORITHM LOGIC ==== */
+	function kruskalInitialization(seed: number = createSeed()): void {
+		cellsRef.current.forEach((row, y) => row.forEach((_, x) => drawCell(x, y, "blocked")));
+
+		const maze = createKruskalMaze({ cols, rows }, createSeededRandom(seed));
+		mazeSeedRef.current = seed;
+		kruskalMazeRef.current = maze;
+		kruskalRunnerRef.current = createAlgorithmRunner(maze.steps);
+		kruskalRunnerRef.current.subscribe(handleMazeEvent);
+		mazeRunRef.current = createRunMeasurements();
+		// The first step carves every cell as its own group
+		const startTime = performance.now();
+		kruskalRunnerRef.current.step();
+		mazeRunRef.current.timeMs += performance.now() - startTime;
+		kruskalTimelineRef.current.clear();
+		syncTimelines();
 	}
 
-	function findRoot(id: number): number {
-		const parents = groupParentsRef.current;
-		if (parents.get(id) === id) return id;
-		const root = findRoot(parents.get(id)!);
-		parents.set(id, root);
-		return root;
+	function handleMazeEvent(event: AlgorithmEvent): void {
+		if (event.type === "phase") phasesRef.current.push(event.phase);
+		if (event.type !== "carve") return;
+		mazeRunRef.current.expanded++;
+		setCellStatus(kruskalTimelineRef.current, event.x, event.y, "passage");
 	}
 
-	function union(id1: number, id2: number): void {
-		const root1 = findRoot(id1);
-		const root2 = findRoot(id2);
-
-		if (root1 === root2) return;
-
-		const parents = groupParentsRef.current;
-		const sizes = groupSizesRef.current;
-		const size1 = sizes.get(root1) ?? 1;
-		const size2 = sizes.get(root2) ?? 1;
-
-		if (size1 < size2) {
-			parents.set(root1, root2);
-			sizes.set(root2, size1 + size2);
-		} else {
-			parents.set(root2, root1);
-			sizes.set(root1, size1 + size2);
-		}
-		setNumGroups((prev) => prev - 1);
+	function isKruskalFinished(): boolean {
+		const maze = kruskalMazeRef.current;
+		const timeline = kruskalTimelineRef.current;
+		if (timeline.position < timeline.length) return false;
+		return maze === null || maze.walls.length === 0 || maze.sets.count <= 1;
 	}
-	function kruskalOneStep(forceOneStep = false): boolean {
-		if (wallsListRef.current.length === 0 || numGroups <= 1) {
-			kruskalRunningRef.current = false;
-			setKruskalRunning(false);
-			setIsMazeComplete(true);
-			return true;
-		}
-
-		let steps = 0;
-		const chunkSize = forceOneStep ? 1 : kruskalChunkSizeRef.current;
-		while (steps < chunkSize && wallsListRef.current.length > 0) {
-			const wall = wallsListRef.current.pop();
-			if (wall === null || wall === undefined) break;
-
-			let cellA, cellB;
-			if (wall.x % 2 !== 0) {
-				cellA = { x: wall.x - 1, y: wall.y };
-				cellB = { x: wall.x + 1, y: wall.y };
-			} else {
-				cellA = { x: wall.x, y: wall.y - 1 };
-				cellB = { x: wall.x, y: wall.y + 1 };
-			}
-
-			if (!isInBounds(cellA.x, cellA.y) || !isInBounds(cellB.x, cellB.y)) continue;
-
-			const groupIDCellA = cellsRef.current[cellA.y][cellA.x].groupId;
-			const groupIDCellB = cellsRef.current[cellB.y][cellB.x].groupId;
 
-			if (groupIDCellA === undefined || groupIDCellB === undefined) continue;
+	// Removes walls for one recorded step
+	function takeKruskalStep(): void {
+		const timeline = kruskalTimelineRef.current;
+		timeline.beginStep();
+		phasesRef.current = [];
+		const startTime = performance.now();
+		kruskalRunnerRef.current?.step();
+		mazeRunRef.current.timeMs += performance.now() - startTime;
+		timeline.endStep({ phases: phasesRef.current, wallCount: kruskalMazeRef.current?.walls.length ?? 0 });
+		if (isKruskalFinished()) recordMazeRun();
+	}
 
-			if (findRoot(groupIDCellA) !== findRoot(groupIDCellB)) {
-				cellsRef.current[wall.y][wall.x].status = "passage";
-				drawCell(wall.x, wall.y, "passage");
-				union(groupIDCellA, groupIDCellB);
-				steps++;
-			}
+	function kruskalOneStep(): boolean {
+		const timeline = kruskalTimelineRef.current;
+		// Replay recorded steps before removing any further walls
+		if (timeline.position < timeline.length) {
+			seekTimeline(timeline, timeline.position + 1);
+		} else if (!isKruskalFinished()) {
+			takeKruskalStep();
 		}
+		syncTimelines();
 
-		const done = numGroups <= 1;
+		const done = isKruskalFinished();
 		if (done) {
-			kruskalRunningRef.current = false;
 			setKruskalRunning(false);
 			setIsMazeComplete(true);
 		}
 		return done;
 	}
 
+	function seekKruskal(position: number): void {
+		seekTimeline(kruskalTimelineRef.current, position);
+		syncTimelines();
+		setIsMazeComplete(isKruskalFinished());
+	}
+
 	function kruskalPlay(): void {
-		if (kruskalRunningRef.current) return;
-		kruskalRunningRef.current = true;
+		if (schedulerRef.current.running) return;
 		setKruskalRunning(true);
 		setIsMazeComplete(false);
-		setKruskalChunkSize(Math.floor((cols + rows) / 4));
-		kruskalStepLoop();
+		schedulerRef.current.start({ step: () => !kruskalOneStep() });
 	}
 
 	function kruskalStop(): void {
-		kruskalRunningRef.current = false;
+		schedulerRef.current.stop();
 		setKruskalRunning(false);
-		setKruskalChunkSize(1);
-	}
-	function kruskalStepLoop(): void {
-		if (!kruskalRunningRef.current) return;
-		if (kruskalOneStep(false)) return;
-		requestAnimationFrame(kruskalStepLoop);
 	}
 
 	/* ==== DIJKSTRA ALGORITHM LOGIC ==== */
+	function updateSearchStatus(status: SearchStatus): void {
+		if (searchStatusRef.current === status) return;
+		searchStatusRef.current = status;
+		setSearchStatus(status);
+		onSearchStatusChange?.(status);
+	}
+
+	// End the run without a path and highlight the region the source can reach
+	function markTargetUnreachable(reachable: Point[]): void {
+		updateSearchStatus("unreachable");
+		for (const { x, y } of reachable) {
+			const { status } = cellsRef.current[y][x];
+			if (status !== "source" && status !== "target") {
+				setCellStatus(dijkstraTimelineRef.current, x, y, "reachable");
+			}
+		}
+	}
+
+	function isSearchFinished(): boolean {
+		return searchStatusRef.current === "found" || searchStatusRef.current === "unreachable";
+	}
+
 	function dijkstraInitialization(): void {
-		visitedRef.current.forEach((row, y) => {
-			row.forEach((_, x) => {
-				visitedRef.current[y][x] = false;
-			});
-		});
 		cellsRef.current.forEach((row, y) => row.forEach((cell, x) => drawCell(x, y, cell.status)));
-
-		const distances = Array(rows)
-			.fill(null)
-			.map(() => Array(cols).fill(Number.POSITIVE_INFINITY));
-		const visited = Array(rows)
-			.fill(null)
-			.map(() => Array(cols).fill(false));
-		const predecessors = Array(rows)
-			.fill(null)
-			.map(() => Array(cols).fill(null));
 		if (source == null || target == null) return;
 
-		distances[source.y][source.x] = 0;
-		predecessors[source.y][source.x] = source;
-		visitedRef.current = visited;
-		predecessorsRef.current = predecessors;
-		distancesRef.current = distances;
-		dijkstraQueueRef.current = [{ x: source.x, y: source.y, dist: 0 }];
+		const grid = createGrid({ cols, rows }, isOpen);
+		const search = createSearch(grid, source, target, { movement });
+		dijkstraSearchRef.current = search;
+		dijkstraRunnerRef.current = createAlgorithmRunner(search.steps);
+		dijkstraRunnerRef.current.subscribe(handleSearchEvent);
+		dijkstraRunRef.current = createRunMeasurements();
+		dijkstraTimelineRef.current.clear();
+		syncTimelines();
 	}
-	function dijkstraOneStep(forceOneStep = false): void {
-		// If queue is empty but we have source and target, reinitialize
-		if (dijkstraQueueRef.current.length === 0 && source !== null && target !== null) {
+	function dijkstraOneStep(): void {
+		if (source === null || target === null) return;
+		const timeline = dijkstraTimelineRef.current;
+		// Replay recorded steps before running the search any further
+		if (timeline.position < timeline.length) {
+			seekDijkstra(timeline.position + 1);
+			return;
+		}
+		// Nothing left to explore once the search has finished
+		if (isSearchFinished()) return;
+
+		// Start a new search if the last one was cleared
+		if (dijkstraRunnerRef.current === null) {
 			dijkstraInitialization();
 		}
+		if (searchStatusRef.current === "idle") {
+			updateSearchStatus("running");
+		}
 
-		const distances = distancesRef.current;
-		const visited = visitedRef.current;
-		const predecessors = predecessorsRef.current;
-		const cells = cellsRef.current;
-		const queue = dijkstraQueueRef.current;
+		timeline.beginStep();
+		phasesRef.current = [];
+		const startTime = performance.now();
+		dijkstraRunnerRef.current?.step();
+		dijkstraRunRef.current.timeMs += performance.now() - startTime;
+		timeline.endStep({
+			status: searchStatusRef.current,
+			phases: phasesRef.current,
+			queueSize: dijkstraSearchRef.current?.forward.queue.size ?? 0,
+		});
+		if (isSearchFinished()) recordDijkstraRun();
+		syncTimelines();
+	}
+
+	function recordMazeRun(): void {
+		const { timeMs, expanded } = mazeRunRef.current;
+		const gridKey = getGridKey(createGrid({ cols, rows }, isOpen));
+		const sizes = kruskalTimelineRef.current
+			.getAppliedData()
+			.map(({ wallCount }) => wallCount);
+		const run: RunStats = {
+			algorithm: "Kruskal",
+			gridKey,
+			gridLabel: `${cols}×${rows} maze #${gridKey}`,
+			expanded,
+			peakFrontier: sizes.reduce((a, b) => Math.max(a, b), 0),
+			pathLength: null,
+			pathCost: null,
+			timeMs,
+			steps: kruskalTimelineRef.current.length,
+		};
+		setRuns((runs) => [...runs, run]);
+	}
+
+	function recordDijkstraRun(): void {
 		if (source === null || target === null) return;
-		const { x: targetX, y: targetY } = target;
-		const directions = [
-			{ dx: -1, dy: 0 },
-			{ dx: 1, dy: 0 },
-			{ dx: 0, dy: -1 },
-			{ dx: 0, dy: 1 },
-		];
-
-		if (visited[targetY][targetX]) {
-			animateShortestPath(source, target, predecessorsRef.current);
-			return;
-		}
+		const { timeMs, expanded, path } = dijkstraRunRef.current;
+		const gridKey = getGridKey(createGrid({ cols, rows }, isOpen), source, target);
+		const sizes = dijkstraTimelineRef.current
+			.getAppliedData()
+			.map(({ queueSize }) => queueSize);
+		const run: RunStats = {
+			algorithm: "Dijkstra",
+			gridKey,
+			gridLabel: `${cols}×${rows} #${gridKey}`,
+			expanded,
+			peakFrontier: sizes.reduce((a, b) => Math.max(a, b), 0),
+			pathLength: path?.length ?? null,
+			pathCost: path?.cost ?? null,
+			timeMs,
+			steps: dijkstraTimelineRef.current.length,
+		};
+		setRuns((runs) => [...runs, run]);
+	}
 
-		let count = 0;
-		const chunkSize = forceOneStep ? 1 : dijkstraChunkSizeRef.current;
-		while (count++ < chunkSize && queue.length > 0) {
-			queue.sort((a, b) => a.dist - b.dist);
-			const current = queue.shift();
-			if (current === undefined) break;
-			const { x, y } = current;
-			if (visited[y][x]) continue;
-			visited[y][x] = true;
-			if (cells[y][x].status !== "source" && cells[y][x].status !== "target") {
-				cells[y][x].status = "visited";
-				drawCell(x, y, "visited");
-			}
+	function seekDijkstra(position: number): void {
+		const timeline = dijkstraTimelineRef.current;
+		seekTimeline(timeline, position);
+		updateSearchStatus(timeline.current?.status ?? "idle");
+		syncTimelines();
+	}
 
-			directions.forEach(({ dx, dy }) => {
-				const nx = x + dx;
-				const ny = y + dy;
-				if (
-					isInBounds(nx, ny) &&
-					!visited[ny][nx] &&
-					(cells[ny][nx].status === "passage" || cells[ny][nx].status === "target")
-				) {
-					if (distances[y][x] + 1 < distances[ny][nx]) {
-						distances[ny][nx] = distances[y][x] + 1;
-						predecessors[ny][nx] = { x, y };
-						queue.push({ x: nx, y: ny, dist: distances[ny][nx] });
-					}
+	function handleSearchEvent(event: AlgorithmEvent): void {
+		const cells = cellsRef.current;
+		switch (event.type) {
+			case "phase":
+				phasesRef.current.push(event.phase);
+				break;
+			case "visit":
+				dijkstraRunRef.current.expanded++;
+				if (cells[event.y][event.x].status !== "source" && cells[event.y][event.x].status !== "target") {
+					setCellStatus(dijkstraTimelineRef.current, event.x, event.y, "visited");
 				}
-			});
-			if (visited[targetY][targetX]) break;
-		}
-
-		if (visited[targetY][targetX]) {
-			animateShortestPath(source, target, predecessorsRef.current);
+				break;
+			case "path":
+				dijkstraRunRef.current.path = { length: event.path.length - 1, cost: event.cost };
+				animateShortestPath(event.path);
+				break;
+			case "unreachable":
+				markTargetUnreachable(event.reachable);
+				break;
 		}
 	}
 
-	function animateShortestPath(
-		source: { x: number; y: number },
-		target: { x: number; y: number },
-		predecessors: Array<Array<{ x: number; y: number }>>
-	): void {
-		const path: Array<{ x: number; y: number }> = [];
-		let u: { x: number; y: number } | null = target;
-		while (u !== null) {
-			path.push(u);
-			if (u.x === source.x && u.y === source.y) break;
-			u = predecessors[u.y][u.x];
-		}
-		let i = path.length - 2;
+	function animateShortestPath(path: Point[]): void {
+		updateSearchStatus("found");
+		// The cells change within the step, only drawing them is animated
+		const pathCells = path.slice(1, -1);
+		pathCells.forEach(({ x, y }) => setCellStatus(dijkstraTimelineRef.current, x, y, "shortestPath", false));
+		let i = 0;
 		shortestPathAnimatingRef.current = true;
 		function step(): void {
 			if (!shortestPathAnimatingRef.current) return;
-			if (i < 1) {
+			if (i >= pathCells.length) {
 				shortestPathAnimatingRef.current = false;
 				return;
 			}
-			const { x, y } = path[i--];
-			cellsRef.current[y][x].status = "shortestPath";
-			drawCell(x, y, "shortestPath");
+			const { x, y } = pathCells[i++];
+			drawCell(x, y, cellsRef.current[y][x].status);
 			requestAnimationFrame(step);
 		}
 		requestAnimationFrame(step);
 	}
 
 	function dijkstraPlay(): void {
-		if (!dijkstraPaused) {
+		// Replay from the current step after seeking back, otherwise start over
+		const timeline = dijkstraTimelineRef.current;
+		if (!dijkstraPaused && timeline.position === timeline.length) {
 			clearDijkstraResults();
 			dijkstraInitialization();
 		}
-		if (dijkstraRunningRef.current) return;
-		dijkstraRunningRef.current = true;
+		if (schedulerRef.current.running) return;
 		setDijkstraRunning(true);
 		setDijkstraPaused(false);
-		setDijkstraChunkSize(Math.floor((cols + rows) / 16));
-		dijkstraStepLoop();
+		schedulerRef.current.start({
+			step() {
+				dijkstraOneStep();
+				return !isSearchFinished();
+			},
+			onFinish: () => setDijkstraRunning(false),
+		});
+	}
+
+	// Runs the search again from its first step, for recording
+	function restartSearch(): void {
+		clearDijkstraResults();
+		dijkstraInitialization();
+		dijkstraPlay();
 	}
 
 	function dijkstraStop(): void {
-		dijkstraRunningRef.current = false;
+		schedulerRef.current.stop();
 		setDijkstraRunning(false);
 		setDijkstraPaused(true);
-		setDijkstraChunkSize(1);
-	}
-	function dijkstraStepLoop(): void {
-		if (!dijkstraRunningRef.current) return;
-		dijkstraOneStep(false);
-		if (target != null && visitedRef.current[target.y][target.x]) {
-			dijkstraRunningRef.current = false;
-			setDijkstraRunning(false);
-			return;
-		}
-		requestAnimationFrame(dijkstraStepLoop);
+	}
+
+	function handleSpeedChange(stepsPerSecond: number): void {
+		setSpeed(stepsPerSecond);
+		schedulerRef.current.setSpeed(stepsPerSecond);
 	}
 
 	/* ==== GRID INTERACTION AND CLEARING ==== */
@@ -430,53 +576,200 @@ export default function KruskalMazeGeneration() {
 		}
 	}
 
+	function handleMouseMove(event: React.MouseEvent<HTMLCanvasElement>): void {
+		const canvas = canvasRef.current;
+		if (canvas == null) return;
+		const rect = canvas.getBoundingClientRect();
+		const x = Math.floor(((event.clientX - rect.left) * canvas.width) / rect.width);
+		const y = Math.floor(((event.clientY - rect.top) * canvas.height) / rect.height);
+		const container = containerRef.current;
+		if (container == null || x < 0 || y < 0 || x >= cols || y >= rows) {
+			setHoveredCell(null);
+			return;
+		}
+		setHoveredCell(getHoveredCell(container, { x, y }, event.clientX, event.clientY));
+	}
+
+	// Cells the overlays draw, including the source the search started from
+	function isSearchedCell(x: number, y: number): boolean {
+		const { status } = cellsRef.current[y][x];
+		return status !== "blocked" && status !== "passage" && status !== "frontier";
+	}
+
+	// What the maze and the search know about a cell, in the order the inspector lists it
+	function getInspectorDetails({ x, y }: Point): InspectorDetail[] {
+		const details: InspectorDetail[] = [];
+		const maze = kruskalMazeRef.current;
+		const groupId = maze?.groupIds[y][x] ?? null;
+		if (maze != null && groupId != null) {
+			details.push({ label: "Group", value: groupId }, { label: "Root", value: maze.sets.find(groupId) });
+		}
+
+		const search = dijkstraSearchRef.current;
+		if (search != null) {
+			details.push(
+				{ label: "Distance", value: search.forward.distances[y][x] },
+				{ label: "Predecessor", value: search.forward.predecessors[y][x] }
+			);
+		}
+		return details;
+	}
+
+	function getInspectorNote(): string | undefined {
+		if (dijkstraTimeline.position < dijkstraTimeline.length) {
+			return `Search data as of step ${dijkstraTimeline.length}`;
+		}
+		if (kruskalTimeline.position < kruskalTimeline.length) {
+			return `Groups as of step ${kruskalTimeline.length}`;
+		}
+	}
+
+	// A finished maze is cropped or extended with open cells, keeping the endpoints that still fit,
+	// while an unfinished one is grown again
+	function resizeMaze(size: GridSize): void {
+		schedulerRef.current.stop();
+		setKruskalRunning(false);
+		setDijkstraRunning(false);
+		if (isMazeComplete) {
+			const scenario = getScenario();
+			pendingSetupRef.current = { ...scenario, ...resizeLayout(scenario, size), mazeSeed: null };
+		} else {
+			setSource(null);
+			setTarget(null);
+		}
+		setCols(size.cols);
+		setRows(size.rows);
+	}
+
 	function clearMaze(): void {
-		wallsListRef.current = [];
+		kruskalMazeRef.current = null;
+		kruskalRunnerRef.current = null;
+		kruskalTimelineRef.current.clear();
 		setSource(null);
 		setTarget(null);
 		setDrawingMode("source");
 		setDijkstraRunning(false);
 		setKruskalRunning(false);
 		setIsMazeComplete(false);
-		dijkstraRunningRef.current = false;
-		kruskalRunningRef.current = false;
-		dijkstraQueueRef.current = [];
+		schedulerRef.current.stop();
+		dijkstraSearchRef.current = null;
+		dijkstraRunnerRef.current = null;
+		dijkstraTimelineRef.current.clear();
+		syncTimelines();
 		shortestPathAnimatingRef.current = false;
+		updateSearchStatus("idle");
 		cellsRef.current.forEach((row, y) => {
 			row.forEach((cell, x) => {
-				if (cell.status === "visited" || cell.status === "shortestPath") {
+				if (cell.status === "visited" || cell.status === "shortestPath" || cell.status === "reachable") {
 					cell.status = "passage";
 					drawCell(x, y, "passage");
 				}
 			});
 		});
 
-		const blankGrid: Array<Array<cellType & { groupId?: number }>> = Array.from({ length: rows }, () =>
+		const blankGrid: cellType[][] = Array.from({ length: rows }, () =>
 			Array.from({ length: cols }, () => ({ status: "blocked" }))
 		);
 		cellsRef.current = blankGrid;
 		kruskalInitialization();
 	}
 
+	/* ==== SCENARIO FILES ==== */
+	function getScenario(): Scenario {
+		return {
+			cols,
+			rows,
+			costs: cellsRef.current.map((row) => row.map(({ status }) => (status === "blocked" ? 0 : 1))),
+			source,
+			target,
+			settings: { movement },
+		};
+	}
+
+	function getSharedSetup(): SharedSetup {
+		return { ...getScenario(), mazeSeed: mazeSeedRef.current };
+	}
+
+	async function loadScenarioFile(file: File): Promise<void> {
+		const result = await readScenarioFile(file);
+		if (result.ok) {
+			requestSetup({ ...result.scenario, mazeSeed: null });
+		} else {
+			setScenarioError(result.error);
+		}
+	}
+
+	// Loads a setup from a file or link, first resizing the grid if needed
+	function requestSetup(setup: SharedSetup): void {
+		const error = getMazeScenarioError(setup, minMazeSize, maxMazeSize);
+		setScenarioError(error);
+		if (error !== null) return;
+
+		if (setup.cols === cols && setup.rows === rows) {
+			loadSetup(setup);
+		} else {
+			pendingSetupRef.current = setup;
+			setCols(setup.cols);
+			setRows(setup.rows);
+		}
+	}
+
+	// Replace the maze with a finished one, grown again from its seed or read cell by cell
+	function loadSetup(setup: SharedSetup): void {
+		const { costs, mazeSeed, settings } = setup;
+		let { source, target } = setup;
+		setKruskalRunning(false);
+		clearDijkstraResults();
+		if (mazeSeed !== null) {
+			cellsRef.current = Array.from({ length: rows }, () =>
+				Array.from({ length: cols }, (): cellType => ({ status: "blocked" }))
+			);
+			kruskalInitialization(mazeSeed);
+			while (!isKruskalFinished()) takeKruskalStep();
+		} else if (costs !== null) {
+			kruskalMazeRef.current = null;
+			kruskalRunnerRef.current = null;
+			kruskalTimelineRef.current.clear();
+			mazeSeedRef.current = null;
+			cellsRef.current = costs.map((row) =>
+				row.map((cost): cellType => ({ status: cost === 0 ? "blocked" : "passage" }))
+			);
+		}
+		syncTimelines();
+
+		// A seed only shows where its walls are once the maze is grown
+		const walled = [source, target].find((point) => point !== null && !isOpen(point.x, point.y));
+		if (walled != null) {
+			setScenarioError(`The cell (${walled.x}, ${walled.y}) is a wall.`);
+			source = null;
+			target = null;
+		}
+		const cells = cellsRef.current;
+		if (source !== null) cells[source.y][source.x].status = "source";
+		if (target !== null) cells[target.y][target.x].status = "target";
+		cells.forEach((row, y) => row.forEach((cell, x) => drawCell(x, y, cell.status)));
+
+		setSource(source);
+		setTarget(target);
+		setIsMazeComplete(true);
+		setDrawingMode(source !== null && target === null ? "target" : "source");
+		if (settings.movement !== undefined) setMovement(settings.movement);
+	}
+
 	function clearDijkstraResults(): void {
-		dijkstraRunningRef.current = false;
+		schedulerRef.current.stop();
 		setDijkstraRunning(false);
 		setDijkstraPaused(false);
-		dijkstraQueueRef.current = [];
+		dijkstraSearchRef.current = null;
+		dijkstraRunnerRef.current = null;
+		dijkstraTimelineRef.current.clear();
+		syncTimelines();
 		shortestPathAnimatingRef.current = false;
-		distancesRef.current = Array(rows)
-			.fill(null)
-			.map(() => Array(cols).fill(Number.POSITIVE_INFINITY));
-		visitedRef.current = Array(rows)
-			.fill(null)
-			.map(() => Array(cols).fill(false));
-		predecessorsRef.current = Array(rows)
-			.fill(null)
-			.map(() => Array(cols).fill(null));
+		updateSearchStatus("idle");
 
 		cellsRef.current.forEach((row, y) => {
 			row.forEach((cell, x) => {
-				if (cell.status === "visited" || cell.status === "shortestPath") {
+				if (cell.status === "visited" || cell.status === "shortestPath" || cell.status === "reachable") {
 					cell.status = "passage";
 					drawCell(x, y, "passage");
 				}
@@ -505,23 +798,23 @@ export default function KruskalMazeGeneration() {
 
 	function setHTMLOverlayToCanvas(gridPos: { x: number; y: number }, htmlEl: HTMLElement): void {
 		const canvas = canvasRef.current!;
-		const container = canvas.parentElement!;
+		const container = containerRef.current!;
 
-		const canvasRect = canvas.getBoundingClientRect();
-		const cellW = canvasRect.width / cols;
-		const cellH = canvasRect.height / rows;
+		const gridRect = getGridRect(canvas);
+		const containerRect = container.getBoundingClientRect();
+		const cellW = gridRect.width / cols;
+		const cellH = gridRect.height / rows;
 
-		// How far in from the container's padding+border the canvas starts:
-		const offsetX = canvas.clientLeft + parseFloat(getComputedStyle(container).paddingLeft);
-		const offsetY = canvas.clientTop + parseFloat(getComputedStyle(container).paddingTop);
-
-		// Calculate the position of the HTML element based on the grid position
-		const left = offsetX + gridPos.x * cellW + cellW / 2;
-		const top = offsetY + gridPos.y * cellH;
+		// Calculate the position of the HTML element based on the grid position, as zoomed and panned
+		const left = gridRect.left - containerRect.left + gridPos.x * cellW + cellW / 2;
+		const top = gridRect.top - containerRect.top + gridPos.y * cellH;
 
 		htmlEl.style.left = `${left}px`;
 		htmlEl.style.top = `${top}px`;
 		htmlEl.style.transform = `translate(-50%, -100%)`;
+		// Hide the tooltip while its cell is zoomed out of view
+		const inView = left >= 0 && top >= 0 && left <= containerRect.width && top <= containerRect.height;
+		htmlEl.style.visibility = inView ? "" : "hidden";
 	}
 
 	useEffect(() => {
@@ -530,7 +823,7 @@ export default function KruskalMazeGeneration() {
 		if (sourceElement != null) {
 			setHTMLOverlayToCanvas(source, sourceElement);
 		}
-	}, [dimensions, source]);
+	}, [dimensions, source, view]);
 
 	useEffect(() => {
 		if (target == null) return;
@@ -538,10 +831,10 @@ export default function KruskalMazeGeneration() {
 		if (targetElement != null) {
 			setHTMLOverlayToCanvas(target, targetElement);
 		}
-	}, [dimensions, target]);
+	}, [dimensions, target, view]);
 
-	function isInBounds(x: number, y: number): boolean {
-		return x >= 0 && y >= 0 && x < cols && y < rows;
+	function isOpen(x: number, y: number): boolean {
+		return cellsRef.current[y][x].status !== "blocked";
 	}
 
 	return (
@@ -553,7 +846,7 @@ export default function KruskalMazeGeneration() {
 							{" "}
 							<button
 								className="join-item btn btn-primary"
-								onMouseDown={() => kruskalOneStep(true)}
+								onMouseDown={() => kruskalOneStep()}
 							>
 								One Step Kruskal
 							</button>
@@ -609,7 +902,7 @@ export default function KruskalMazeGeneration() {
 							<button
 								className="join-item btn btn-primary"
 								disabled={source === null || target === null}
-								onMouseDown={() => dijkstraOneStep(true)}
+								onMouseDown={dijkstraOneStep}
 							>
 								One Step Dijkstra
 							</button>
@@ -621,44 +914,165 @@ export default function KruskalMazeGeneration() {
 								{dijkstraRunning ? "Stop Dijkstra" : "Play Dijkstra"}
 							</button>
 						</div>
-					</div>
-
-					<div className="relative mx-auto flex justify-center">
-						<canvas
-							ref={canvasRef}
-							className="w-[700px] cursor-pointer touch-none select-none shadow-md"
-							style={{ imageRendering: "pixelated" }}
-							onMouseDown={handleMouseClick}
-						/>
-						{source !== null && (
-							<div
-								className="kruskal-source-node tooltip tooltip-top tooltip-open tooltip-error absolute font-bold opacity-80"
-								data-tip="Source Node"
+						<div className="flex justify-center">
+							<SpeedControl stepsPerSecond={speed} onChange={handleSpeedChange} />
+						</div>
+						{/* Timelines of the recorded steps */}
+						<div className="flex flex-col items-center gap-1">
+							<TimelineSlider
+								label="Kruskal"
+								position={kruskalTimeline.position}
+								length={kruskalTimeline.length}
+								disabled={kruskalRunning || source !== null}
+								onSeek={seekKruskal}
 							/>
-						)}
-						{target !== null && (
-							<div
-								className="kruskal-target-node tooltip tooltip-top tooltip-open tooltip-success absolute font-bold opacity-80"
-								data-tip="Target Node"
+							<TimelineSlider
+								label="Dijkstra"
+								position={dijkstraTimeline.position}
+								length={dijkstraTimeline.length}
+								disabled={dijkstraRunning}
+								onSeek={seekDijkstra}
 							/>
-						)}
-						<div className="bg-transparent text-center font-bold">
-							{!isMazeComplete && !kruskalRunning && (
-								<div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-base-300/40 px-3 py-1 text-sm shadow-md">
-									Click "One Step Kruskal" or "Play Kruskal" to build the maze
-								</div>
+						</div>
+						<OverlayToggles
+							heatmap={showHeatmap}
+							tree={showTree}
+							onHeatmapChange={setShowHeatmap}
+							onTreeChange={setShowTree}
+						/>
+						<div className="flex justify-center">
+							<MovementSelect
+								movement={movement}
+								disabled={dijkstraRunning}
+								onChange={(movement) => {
+									setMovement(movement);
+									clearDijkstraResults();
+								}}
+							/>
+						</div>
+					</div>
+
+					<div className="flex flex-col items-center justify-center gap-4 xl:flex-row xl:items-start">
+						<div
+							ref={containerRef}
+							className="relative mx-auto flex w-[700px] justify-center"
+							data-search-status={searchStatus}
+						>
+							<ZoomPanView canvasRef={canvasRef} cols={cols} rows={rows} view={view} onViewChange={setView}>
+								<canvas
+									ref={canvasRef}
+									className="w-full cursor-pointer touch-none select-none shadow-md"
+									style={{ imageRendering: "pixelated" }}
+									{...getScenarioDropHandlers(loadScenarioFile)}
+									onMouseDown={handleMouseClick}
+									onMouseMove={handleMouseMove}
+									onMouseLeave={() => setHoveredCell(null)}
+								/>
+								<SearchOverlay
+									canvasRef={canvasRef}
+									search={dijkstraSearchRef.current}
+									cols={cols}
+									rows={rows}
+									heatmap={showHeatmap}
+									tree={showTree}
+									isSearched={isSearchedCell}
+									version={dijkstraTimeline.position}
+								/>
+							</ZoomPanView>
+							{source !== null && (
+								<div
+									className="kruskal-source-node tooltip tooltip-top tooltip-open tooltip-error absolute font-bold opacity-80"
+									data-tip="Source Node"
+								/>
 							)}
-							{kruskalRunning && (
-								<div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-primary/40 px-3 py-1 text-sm shadow-md">
-									Building maze...
-								</div>
+							{target !== null && (
+								<div
+									className="kruskal-target-node tooltip tooltip-top tooltip-open tooltip-success absolute font-bold opacity-80"
+									data-tip="Target Node"
+								/>
 							)}
-							{isMazeComplete && source === null && target === null && (
-								<div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-success/40 px-3 py-1 text-sm shadow-md">
-									Maze complete! Place source and target points
-								</div>
+							<div className="bg-transparent text-center font-bold">
+								{!isMazeComplete && !kruskalRunning && (
+									<div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-base-300/40 px-3 py-1 text-sm shadow-md">
+										Click "One Step Kruskal" or "Play Kruskal" to build the maze
+									</div>
+								)}
+								{kruskalRunning && (
+									<div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-primary/40 px-3 py-1 text-sm shadow-md">
+										Building maze...
+									</div>
+								)}
+								{isMazeComplete && source === null && target === null && (
+									<div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-success/40 px-3 py-1 text-sm shadow-md">
+										Maze complete! Place source and target points
+									</div>
+								)}
+								{searchStatus === "unreachable" && !dijkstraRunning && (
+									<div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-error/40 px-3 py-1 text-sm shadow-md">
+										Target unreachable!
+									</div>
+								)}
+							</div>
+							{hoveredCell !== null && (
+								<CellInspector
+									{...hoveredCell}
+									status={cellsRef.current[hoveredCell.cell.y][hoveredCell.cell.x].status}
+									details={getInspectorDetails(hoveredCell.cell)}
+									note={getInspectorNote()}
+								/>
 							)}
 						</div>
+						{/* The search takes over the panel once it has taken a step */}
+						{dijkstraTimeline.length > 0 ? (
+							<div className="flex w-full max-w-md flex-col gap-4">
+								<PseudocodePanel
+									title="Dijkstra"
+									lines={getSearchPseudocode("dijkstra")}
+									phases={dijkstraPhases}
+								/>
+								<QueuePanel
+									title="Queue"
+									size={dijkstraSearchRef.current?.forward.queue.size ?? 0}
+									getEntries={(count) =>
+										dijkstraSearchRef.current?.forward.queue
+											.peekSmallest(count)
+											.map(({ x, y, dist }) => ({ x, y, value: dist })) ?? []
+									}
+									queue={dijkstraSearchRef.current?.forward.queue ?? null}
+									version={dijkstraTimeline.length}
+									highlightNext
+									sizes={dijkstraTimelineRef.current.getAppliedData().map(({ queueSize }) => queueSize)}
+									note={
+										dijkstraTimeline.position < dijkstraTimeline.length
+											? `Queue as of step ${dijkstraTimeline.length}`
+											: undefined
+									}
+								/>
+							</div>
+						) : (
+							<div className="flex w-full max-w-md flex-col gap-4">
+								<PseudocodePanel
+									title="Kruskal"
+									lines={kruskalPseudocode}
+									phases={kruskalPhases}
+								/>
+								{/* Walls are taken from the end of the shuffled list */}
+								<QueuePanel
+									title="Walls"
+									size={kruskalMazeRef.current?.walls.length ?? 0}
+									getEntries={(count) => (kruskalMazeRef.current?.walls.slice(-count) ?? []).reverse()}
+									queue={kruskalMazeRef.current?.walls ?? null}
+									version={kruskalTimeline.length}
+									highlightNext
+									sizes={kruskalTimelineRef.current.getAppliedData().map(({ wallCount }) => wallCount)}
+									note={
+										kruskalTimeline.position < kruskalTimeline.length
+											? `Walls as of step ${kruskalTimeline.length}`
+											: "Walls between cells already joined are skipped"
+									}
+								/>
+							</div>
+						)}
 					</div>
 
 					<div className="flex flex-col items-center">
@@ -677,28 +1091,47 @@ export default function KruskalMazeGeneration() {
 								Clear Dijkstra
 							</button>
 						</div>
-						<div className="flex w-full flex-col items-center p-4 text-center">
-							<input
-								type="range"
-								min={5}
-								max={251}
-								value={rows}
-								step={2}
-								className="range range-primary range-sm w-full max-w-xs"
-								onChange={(e) => {
-									const value = Number(e.target.value);
-									setRows(value);
-									setCols(value);
-									setKruskalChunkSize(1);
-									setDijkstraChunkSize(1);
-									setSource(null);
-									setTarget(null);
-									setIsMazeComplete(false);
-								}}
+						<ScenarioControls
+							fileName="kruskal-scenario.json"
+							canSave={isMazeComplete}
+							getScenario={getScenario}
+							getSharedSetup={getSharedSetup}
+							onFile={loadScenarioFile}
+							error={scenarioError}
+							onDismissError={() => setScenarioError(null)}
+						/>
+						<ExportMenu
+							canvasRef={canvasRef}
+							cols={cols}
+							rows={rows}
+							fileName="kruskal-maze"
+							runs={[
+								{
+									label: "Kruskal",
+									start() {
+										clearMaze();
+										kruskalPlay();
+									},
+								},
+								{
+									label: "Dijkstra",
+									disabled: !isMazeComplete || source === null || target === null,
+									start: restartSearch,
+								},
+							]}
+							isRunning={() => schedulerRef.current.running || shortestPathAnimatingRef.current}
+						/>
+						<RunStatsTable runs={runs} onClear={() => setRuns([])} />
+						<div className="flex w-full flex-col items-center gap-2 p-4 text-center">
+							<GridSizeControls
+								cols={cols}
+								rows={rows}
+								min={minMazeSize}
+								max={maxMazeSize}
+								odd
+								onResize={resizeMaze}
 							/>
-							<span className="mt-2 text-sm opacity-60">
-								Maze Size: {rows} x {cols}
-							</span>
+							<span className="text-sm opacity-60">Maze Size</span>
 						</div>
 					</div>
 				</div>
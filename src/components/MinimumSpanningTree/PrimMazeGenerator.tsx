@@ -1,4 +1,61 @@
 import { useRef, useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  AlgorithmEvent,
+  AlgorithmPhase,
+} from "../../algorithms/algorithmEvents";
+import {
+  AlgorithmRunner,
+  createAlgorithmRunner,
+} from "../../algorithms/algorithmRunner";
+import { createGrid, GridSize, Point } from "../../algorithms/grid";
+import { resizeLayout } from "../../algorithms/gridLayout";
+import { createSearch, Search } from "../../algorithms/gridSearch";
+import { defaultMovement, Movement } from "../../algorithms/movement";
+import { createPrimMaze, PrimMaze } from "../../algorithms/primMaze";
+import { createSeed, createSeededRandom } from "../../algorithms/random";
+import {
+  getSearchPseudocode,
+  primPseudocode,
+} from "../../algorithms/pseudocode";
+import MovementSelect from "../Pathfinding/MovementSelect";
+import {
+  createRunMeasurements,
+  getGridKey,
+  RunStats,
+} from "../../algorithms/runStats";
+import {
+  getMazeScenarioError,
+  readScenarioFile,
+  Scenario,
+} from "../../algorithms/scenario";
+import { SearchStatus } from "../../algorithms/searchStatus";
+import {
+  decodeSharedSetup,
+  shareParam,
+  SharedSetup,
+} from "../../algorithms/shareLink";
+import { createStepScheduler } from "../../algorithms/stepScheduler";
+import { createTimeline, Timeline } from "../../algorithms/timeline";
+import { fitView, ZoomView } from "../../algorithms/zoomView";
+import CellInspector, {
+  getHoveredCell,
+  HoveredCell,
+  InspectorDetail,
+} from "../AlgorithmControls/CellInspector";
+import ExportMenu from "../AlgorithmControls/ExportMenu";
+import GridSizeControls from "../AlgorithmControls/GridSizeControls";
+import OverlayToggles from "../AlgorithmControls/OverlayToggles";
+import PseudocodePanel from "../AlgorithmControls/PseudocodePanel";
+import QueuePanel from "../AlgorithmControls/QueuePanel";
+import RunStatsTable from "../AlgorithmControls/RunStatsTable";
+import ScenarioControls, {
+  getScenarioDropHandlers,
+} from "../AlgorithmControls/ScenarioControls";
+import SearchOverlay from "../AlgorithmControls/SearchOverlay";
+import SpeedControl from "../AlgorithmControls/SpeedControl";
+import TimelineSlider from "../AlgorithmControls/TimelineSlider";
+import ZoomPanView from "../AlgorithmControls/ZoomPanView";
 
 interface cellType {
   status:
@@ -8,17 +65,48 @@ interface cellType {
     | "visited"
     | "source"
     | "target"
-    | "shortestPath";
+    | "shortestPath"
+    | "reachable";
 }
 
-export default function PrimMazeGeneration() {
+// Search progress restored together with the cells when seeking the timeline
+interface SearchSnapshot {
+  status: SearchStatus;
+  phases: AlgorithmPhase[];
+  queueSize: number;
+}
+
+interface MazeSnapshot {
+  phases: AlgorithmPhase[];
+  frontierSize: number;
+}
+
+// Steps per second Prim and Dijkstra play at until the speed is changed
+const defaultSpeed = 1000;
+
+const minMazeSize = 5;
+const maxMazeSize = 251;
+
+// An odd coordinate below max, where maze cells sit
+function randOdd(max: number, random: () => number): number {
+  const n = Math.floor(random() * Math.floor(max / 2)) * 2 + 1;
+  return Math.min(n, max - 1);
+}
+
+interface PrimMazeGenerationProps {
+  // Called whenever a run starts, finds a path or proves the target unreachable
+  onSearchStatusChange?: (status: SearchStatus) => void;
+}
+
+export default function PrimMazeGeneration({
+  onSearchStatusChange,
+}: PrimMazeGenerationProps) {
   /* ==== STATES ==== */
   const [cols, setCols] = useState<number>(99);
   const [rows, setRows] = useState<number>(99);
   const [source, setSource] = useState<{ x: number; y: number } | null>(null);
   const [target, setTarget] = useState<{ x: number; y: number } | null>(null);
-  const [dijkstraChunkSize, setDijkstraChunkSize] = useState<number>(1);
-  const [primChunkSize, setPrimChunkSize] = useState<number>(1);
+  const [speed, setSpeed] = useState<number>(defaultSpeed);
   const [dijkstraRunning, setDijkstraRunning] = useState<boolean>(false);
   const [primRunning, setPrimRunning] = useState<boolean>(false);
   const [dijkstraPaused, setDijkstraPaused] = useState<boolean>(false);
@@ -31,6 +119,23 @@ export default function PrimMazeGeneration() {
   });
   const [drawingMode, setDrawingMode] = useState<string>("");
   const [isMazeComplete, setIsMazeComplete] = useState<boolean>(false);
+  const [movement, setMovement] = useState<Movement>(defaultMovement);
+  const [searchStatus, setSearchStatus] = useState<SearchStatus>("idle");
+  const [primTimeline, setPrimTimeline] = useState({ position: 0, length: 0 });
+  const [dijkstraTimeline, setDijkstraTimeline] = useState({
+    position: 0,
+    length: 0,
+  });
+  const [primPhases, setPrimPhases] = useState<AlgorithmPhase[]>([]);
+  const [dijkstraPhases, setDijkstraPhases] = useState<AlgorithmPhase[]>([]);
+  const [hoveredCell, setHoveredCell] = useState<HoveredCell | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [showTree, setShowTree] = useState(false);
+  const [view, setView] = useState<ZoomView>(fitView);
+  const [runs, setRuns] = useState<RunStats[]>([]);
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  const sharedSetup = searchParams.get(shareParam);
 
   function getVar(name: string) {
     return getComputedStyle(document.documentElement).getPropertyValue(name);
@@ -38,25 +143,75 @@ export default function PrimMazeGeneration() {
 
   /* ==== REFS ==== */
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Positions the tooltips and inspector, which are not zoomed with the grid
+  const containerRef = useRef<HTMLDivElement>(null);
   const cellsRef = useRef<cellType[][]>([]);
-  const frontierListRef = useRef<Array<{ x: number; y: number }>>([]);
-  const distancesRef = useRef<number[][]>([]);
-  const visitedRef = useRef<boolean[][]>([]);
-  const predecessorsRef = useRef<Array<Array<{ x: number; y: number } | null>>>(
-    []
-  );
-  const dijkstraQueueRef = useRef<
-    Array<{ x: number; y: number; dist: number }>
-  >([]);
-  const primRunningRef = useRef<boolean>(false);
-  const dijkstraRunningRef = useRef<boolean>(false);
-  const primChunkSizeRef = useRef<number>(primChunkSize);
-  const dijkstraChunkSizeRef = useRef<number>(dijkstraChunkSize);
+  const primMazeRef = useRef<PrimMaze | null>(null);
+  const primRunnerRef = useRef<AlgorithmRunner | null>(null);
+  const dijkstraSearchRef = useRef<Search | null>(null);
+  const dijkstraRunnerRef = useRef<AlgorithmRunner | null>(null);
+  const primTimelineRef =
+    useRef(createTimeline<cellType["status"], MazeSnapshot>());
+  const dijkstraTimelineRef =
+    useRef(createTimeline<cellType["status"], SearchSnapshot>());
+  // Pseudocode lines reached by the step being taken
+  const phasesRef = useRef<AlgorithmPhase[]>([]);
+  // Measurements of the current runs, recorded once they finish
+  const mazeRunRef = useRef(createRunMeasurements());
+  const dijkstraRunRef = useRef(createRunMeasurements());
+  // Plays Prim and then Dijkstra, never both at once
+  const schedulerRef = useRef(createStepScheduler(defaultSpeed));
   const shortestPathAnimatingRef = useRef(false);
+  const searchStatusRef = useRef<SearchStatus>("idle");
+  // Loaded once the grid has been rebuilt at the scenario's size
+  const pendingSetupRef = useRef<SharedSetup | null>(null);
+  // Seed the current maze was grown from, null for a maze read from a file
+  const mazeSeedRef = useRef<number | null>(null);
 
   /* ==== GRID AND DRAWING LOGIC ==== */
-  function isInBounds(x: number, y: number): boolean {
-    return x >= 0 && y >= 0 && x < cols && y < rows;
+  function isOpen(x: number, y: number): boolean {
+    return cellsRef.current[y][x].status !== "blocked";
+  }
+
+  // Change a cell on behalf of an algorithm, recording it in its timeline
+  function setCellStatus(
+    timeline: Timeline<cellType["status"], unknown>,
+    x: number,
+    y: number,
+    status: cellType["status"],
+    draw = true
+  ): void {
+    const cell = cellsRef.current[y][x];
+    timeline.record(x, y, cell.status, status);
+    cell.status = status;
+    if (draw) drawCell(x, y, status);
+  }
+
+  // Undo or redo recorded steps, skipping cells edited since
+  function seekTimeline(
+    timeline: Timeline<cellType["status"], unknown>,
+    position: number
+  ): void {
+    shortestPathAnimatingRef.current = false;
+    timeline.seek(position, (x, y, expected, next) => {
+      const cell = cellsRef.current[y][x];
+      if (cell.status !== expected) return;
+      cell.status = next;
+      drawCell(x, y, next);
+    });
+  }
+
+  function syncTimelines(): void {
+    const prim = primTimelineRef.current;
+    const dijkstra = dijkstraTimelineRef.current;
+    setPrimTimeline({ position: prim.position, length: prim.length });
+    setDijkstraTimeline({
+      position: dijkstra.position,
+      length: dijkstra.length,
+    });
+    // The unrecorded first step of the maze is its initialization
+    setPrimPhases(prim.current?.phases ?? ["init"]);
+    setDijkstraPhases(dijkstra.current?.phases ?? []);
   }
 
   function drawCell(x: number, y: number, status: cellType["status"]): void {
@@ -84,10 +239,18 @@ export default function PrimMazeGeneration() {
       case "shortestPath":
         ctx.fillStyle = getVar("--color-secondary");
         break;
+      case "reachable":
+        // Cells reachable from the source once the target proved unreachable
+        ctx.fillStyle = getVar("--color-base-100");
+        ctx.fillRect(x, y, 1, 1);
+        ctx.globalAlpha = 0.35;
+        ctx.fillStyle = getVar("--color-error");
+        break;
       default:
         ctx.fillStyle = "#000";
     }
     ctx.fillRect(x, y, 1, 1);
+    ctx.globalAlpha = 1;
   }
 
   /* ==== CANVAS SETUP AND OBSERVERS ==== */
@@ -113,287 +276,347 @@ export default function PrimMazeGeneration() {
     return undefined;
   }, [rows, cols]);
 
-  useEffect((): void => {
-    dijkstraChunkSizeRef.current = dijkstraChunkSize;
-  }, [dijkstraChunkSize]);
+  useEffect(() => () => schedulerRef.current.stop(), []);
 
   useEffect((): void => {
-    primChunkSizeRef.current = primChunkSize;
-  }, [primChunkSize]);
+    const setup = pendingSetupRef.current;
+    if (setup !== null) {
+      pendingSetupRef.current = null;
+      loadSetup(setup);
+      return;
+    }
+    primInitialization();
+  }, [rows, cols]);
 
+  // Restore the setup of an opened link
   useEffect((): void => {
-    const randOdd = (max: number): number => {
-      const n = Math.floor(Math.random() * Math.floor(max / 2)) * 2 + 1;
-      return Math.min(n, max - 1);
-    };
-    primInitialization(randOdd(cols), randOdd(rows));
-  }, [rows, cols]);
+    if (sharedSetup === null) return;
+    const result = decodeSharedSetup(sharedSetup);
+    if (result.ok) {
+      requestSetup(result.setup);
+    } else {
+      setScenarioError(result.error);
+    }
+  }, [sharedSetup]);
 
   useEffect((): void => {
     if (source === null || target === null) return;
     dijkstraInitialization();
   }, [source, target]);
 
-  function primInitialization(x: number, y: number): void {
+  function primInitialization(seed: number = createSeed()): void {
     const grid: cellType[][] = Array.from({ length: rows }, () =>
       Array.from({ length: cols }, () => ({ status: "blocked" }))
     );
-    const directions = [
-      { dx: -2, dy: 0 },
-      { dx: 2, dy: 0 },
-      { dx: 0, dy: -2 },
-      { dx: 0, dy: 2 },
-    ];
-    const startX = x;
-    const startY = y;
-    grid[startY][startX].status = "passage";
-    drawCell(startX, startY, "passage");
-    const frontierList: Array<{ x: number; y: number }> = [];
-    directions.forEach(({ dx, dy }) => {
-      const nx = startX + dx;
-      const ny = startY + dy;
-      if (isInBounds(nx, ny) && grid[ny][nx].status === "blocked") {
-        frontierList.push({ x: nx, y: ny });
-        grid[ny][nx].status = "frontier";
-        drawCell(nx, ny, "frontier");
-      }
-    });
-    frontierListRef.current = frontierList;
     cellsRef.current = grid;
+    const random = createSeededRandom(seed);
+    const start = { x: randOdd(cols, random), y: randOdd(rows, random) };
+    const maze = createPrimMaze({ cols, rows }, start, random);
+    mazeSeedRef.current = seed;
+    primMazeRef.current = maze;
+    primRunnerRef.current = createAlgorithmRunner(maze.steps);
+    primRunnerRef.current.subscribe(handleMazeEvent);
+    mazeRunRef.current = createRunMeasurements();
+    // The first step carves the start cell and collects its frontier
+    const startTime = performance.now();
+    primRunnerRef.current.step();
+    mazeRunRef.current.timeMs += performance.now() - startTime;
+    primTimelineRef.current.clear();
+    syncTimelines();
     setIsMazeComplete(false);
     setDrawingMode("");
     setSource(null);
     setTarget(null);
   }
 
+  function handleMazeEvent(event: AlgorithmEvent): void {
+    if (event.type === "phase") phasesRef.current.push(event.phase);
+    if (event.type !== "carve" && event.type !== "frontier") return;
+    if (event.type === "carve") mazeRunRef.current.expanded++;
+    const status = event.type === "carve" ? "passage" : "frontier";
+    setCellStatus(primTimelineRef.current, event.x, event.y, status);
+  }
+
+  function isPrimFinished(): boolean {
+    const timeline = primTimelineRef.current;
+    return (
+      timeline.position === timeline.length &&
+      primMazeRef.current?.frontier.length === 0
+    );
+  }
+
+  // Grows the maze by one recorded step
+  function takePrimStep(): void {
+    const timeline = primTimelineRef.current;
+    timeline.beginStep();
+    phasesRef.current = [];
+    const startTime = performance.now();
+    primRunnerRef.current?.step();
+    mazeRunRef.current.timeMs += performance.now() - startTime;
+    timeline.endStep({
+      phases: phasesRef.current,
+      frontierSize: primMazeRef.current?.frontier.length ?? 0,
+    });
+    if (isPrimFinished()) recordMazeRun();
+  }
+
   function primOneStep(): void {
-    const frontierList = frontierListRef.current;
-    const updatedCells = cellsRef.current;
-    const directions = [
-      { dx: -2, dy: 0 },
-      { dx: 2, dy: 0 },
-      { dx: 0, dy: -2 },
-      { dx: 0, dy: 2 },
-    ];
-    let i = 0;
-    while (i++ < primChunkSizeRef.current && frontierList.length > 0) {
-      const randomIndex = Math.floor(Math.random() * frontierList.length);
-      const { x, y } = frontierList.splice(randomIndex, 1)[0];
-      const passageNeighbours = directions
-        .map(({ dx, dy }) => ({ x: x + dx, y: y + dy }))
-        .filter(
-          (cand) =>
-            isInBounds(cand.x, cand.y) &&
-            updatedCells[cand.y][cand.x].status === "passage"
-        );
-      if (passageNeighbours.length > 0) {
-        const neighbor =
-          passageNeighbours[
-            Math.floor(Math.random() * passageNeighbours.length)
-          ];
-        const betweenX = (x + neighbor.x) / 2;
-        const betweenY = (y + neighbor.y) / 2;
-        updatedCells[betweenY][betweenX].status = "passage";
-        drawCell(betweenX, betweenY, "passage");
-        updatedCells[y][x].status = "passage";
-        drawCell(x, y, "passage");
-        directions.forEach(({ dx, dy }) => {
-          const nx = x + dx;
-          const ny = y + dy;
-          if (isInBounds(nx, ny) && updatedCells[ny][nx].status === "blocked") {
-            updatedCells[ny][nx].status = "frontier";
-            drawCell(nx, ny, "frontier");
-            frontierList.push({ x: nx, y: ny });
-          }
-        });
-      }
+    const timeline = primTimelineRef.current;
+    // Replay recorded steps before growing the maze any further
+    if (timeline.position < timeline.length) {
+      seekTimeline(timeline, timeline.position + 1);
+    } else if (!isPrimFinished()) {
+      takePrimStep();
     }
-    if (frontierList.length === 0) {
+    syncTimelines();
+    if (isPrimFinished()) {
       setIsMazeComplete(true);
       setDrawingMode("source");
     }
   }
 
+  function seekPrim(position: number): void {
+    seekTimeline(primTimelineRef.current, position);
+    syncTimelines();
+    const complete = isPrimFinished();
+    setIsMazeComplete(complete);
+    setDrawingMode(complete ? "source" : "");
+  }
+
   function primPlay(): void {
-    if (primRunningRef.current) return;
-    primRunningRef.current = true;
+    if (schedulerRef.current.running) return;
     setPrimRunning(true);
     setIsMazeComplete(false);
-    primStepLoop();
-    setPrimChunkSize((cols + rows) / 20);
+    schedulerRef.current.start({
+      step() {
+        primOneStep();
+        return !isPrimFinished();
+      },
+      onFinish: () => setPrimRunning(false),
+    });
   }
   function primStop(): void {
-    primRunningRef.current = false;
+    schedulerRef.current.stop();
     setPrimRunning(false);
-    setPrimChunkSize(1);
-  }
-  function primStepLoop(): void {
-    if (!primRunningRef.current) return;
-    primOneStep();
-    if (frontierListRef.current.length === 0) {
-      primRunningRef.current = false;
-      setPrimRunning(false);
-      setIsMazeComplete(true);
-      setDrawingMode("source");
-      return;
-    }
-    requestAnimationFrame(primStepLoop);
   }
 
   /* ==== DIJKSTRA ALGORITHM LOGIC ==== */
+  function updateSearchStatus(status: SearchStatus): void {
+    if (searchStatusRef.current === status) return;
+    searchStatusRef.current = status;
+    setSearchStatus(status);
+    onSearchStatusChange?.(status);
+  }
+
+  // End the run without a path and highlight the region the source can reach
+  function markTargetUnreachable(reachable: Point[]): void {
+    updateSearchStatus("unreachable");
+    for (const { x, y } of reachable) {
+      const { status } = cellsRef.current[y][x];
+      if (status !== "source" && status !== "target") {
+        setCellStatus(dijkstraTimelineRef.current, x, y, "reachable");
+      }
+    }
+  }
+
+  function isSearchFinished(): boolean {
+    return (
+      searchStatusRef.current === "found" ||
+      searchStatusRef.current === "unreachable"
+    );
+  }
+
   function dijkstraInitialization(): void {
-    visitedRef.current.forEach((row, y) => {
-      row.forEach((_, x) => {
-        visitedRef.current[y][x] = false;
-      });
-    });
     cellsRef.current.forEach((row, y) =>
       row.forEach((cell, x) => drawCell(x, y, cell.status))
     );
-    const distances: number[][] = Array(rows)
-      .fill(null)
-      .map(() => Array(cols).fill(Number.POSITIVE_INFINITY));
-    const visited: boolean[][] = Array(rows)
-      .fill(null)
-      .map(() => Array(cols).fill(false));
-    const predecessors: Array<Array<{ x: number; y: number } | null>> = Array(
-      rows
-    )
-      .fill(null)
-      .map(() => Array(cols).fill(null));
     if (source === null || target === null) {
       return;
     }
-    distances[source.y][source.x] = 0;
-    predecessors[source.y][source.x] = source;
-    visitedRef.current = visited;
-    predecessorsRef.current = predecessors;
-    distancesRef.current = distances;
-    dijkstraQueueRef.current = [{ x: source.x, y: source.y, dist: 0 }];
+    const grid = createGrid({ cols, rows }, isOpen);
+    const search = createSearch(grid, source, target, { movement });
+    dijkstraSearchRef.current = search;
+    dijkstraRunnerRef.current = createAlgorithmRunner(search.steps);
+    dijkstraRunnerRef.current.subscribe(handleSearchEvent);
+    dijkstraRunRef.current = createRunMeasurements();
+    dijkstraTimelineRef.current.clear();
+    syncTimelines();
   }
 
   function dijkstraOneStep(): void {
-    // Auto-initialize if needed
-    if (
-      dijkstraQueueRef.current.length === 0 ||
-      distancesRef.current.length === 0 ||
-      visitedRef.current.length === 0 ||
-      predecessorsRef.current.length === 0
-    ) {
-      if (source !== null && target !== null) {
-        dijkstraInitialization();
-      }
-    }
-    const distances = distancesRef.current;
-    const visited = visitedRef.current;
-    const predecessors = predecessorsRef.current;
-    const cells = cellsRef.current;
-    const queue = dijkstraQueueRef.current;
     if (source === null || target === null) {
       return;
     }
-    const { x: targetX, y: targetY } = target;
-    const directions = [
-      { dx: -1, dy: 0 },
-      { dx: 1, dy: 0 },
-      { dx: 0, dy: -1 },
-      { dx: 0, dy: 1 },
-    ];
-    if (visited[targetY][targetX]) {
-      animateShortestPath(source, target, predecessorsRef.current);
+    const timeline = dijkstraTimelineRef.current;
+    // Replay recorded steps before running the search any further
+    if (timeline.position < timeline.length) {
+      seekDijkstra(timeline.position + 1);
       return;
     }
-    let count = 0;
-    while (count++ < dijkstraChunkSizeRef.current && queue.length > 0) {
-      queue.sort((a, b) => a.dist - b.dist);
-      const current = queue.shift();
-      if (current === undefined) break;
-      const { x, y } = current;
-      if (visited[y][x]) continue;
-      visited[y][x] = true;
-      if (cells[y][x].status !== "source" && cells[y][x].status !== "target") {
-        cells[y][x].status = "visited";
-        drawCell(x, y, "visited");
-      }
-      directions.forEach(({ dx, dy }) => {
-        const nx = x + dx;
-        const ny = y + dy;
+    // Nothing left to explore once the search has finished
+    if (isSearchFinished()) return;
+    if (dijkstraRunnerRef.current === null) {
+      dijkstraInitialization();
+    }
+    if (searchStatusRef.current === "idle") {
+      updateSearchStatus("running");
+    }
+    timeline.beginStep();
+    phasesRef.current = [];
+    const startTime = performance.now();
+    dijkstraRunnerRef.current?.step();
+    dijkstraRunRef.current.timeMs += performance.now() - startTime;
+    timeline.endStep({
+      status: searchStatusRef.current,
+      phases: phasesRef.current,
+      queueSize: dijkstraSearchRef.current?.forward.queue.size ?? 0,
+    });
+    if (isSearchFinished()) recordDijkstraRun();
+    syncTimelines();
+  }
+
+  function recordMazeRun(): void {
+    const { timeMs, expanded } = mazeRunRef.current;
+    const gridKey = getGridKey(createGrid({ cols, rows }, isOpen));
+    const sizes = primTimelineRef.current
+      .getAppliedData()
+      .map(({ frontierSize }) => frontierSize);
+    const run: RunStats = {
+      algorithm: "Prim",
+      gridKey,
+      gridLabel: `${cols}×${rows} maze #${gridKey}`,
+      expanded,
+      peakFrontier: sizes.reduce((a, b) => Math.max(a, b), 0),
+      pathLength: null,
+      pathCost: null,
+      timeMs,
+      steps: primTimelineRef.current.length,
+    };
+    setRuns((runs) => [...runs, run]);
+  }
+
+  function recordDijkstraRun(): void {
+    if (source === null || target === null) return;
+    const { timeMs, expanded, path } = dijkstraRunRef.current;
+    const gridKey = getGridKey(
+      createGrid({ cols, rows }, isOpen),
+      source,
+      target
+    );
+    const sizes = dijkstraTimelineRef.current
+      .getAppliedData()
+      .map(({ queueSize }) => queueSize);
+    const run: RunStats = {
+      algorithm: "Dijkstra",
+      gridKey,
+      gridLabel: `${cols}×${rows} #${gridKey}`,
+      expanded,
+      peakFrontier: sizes.reduce((a, b) => Math.max(a, b), 0),
+      pathLength: path?.length ?? null,
+      pathCost: path?.cost ?? null,
+      timeMs,
+      steps: dijkstraTimelineRef.current.length,
+    };
+    setRuns((runs) => [...runs, run]);
+  }
+
+  function seekDijkstra(position: number): void {
+    const timeline = dijkstraTimelineRef.current;
+    seekTimeline(timeline, position);
+    updateSearchStatus(timeline.current?.status ?? "idle");
+    syncTimelines();
+  }
+
+  function handleSearchEvent(event: AlgorithmEvent): void {
+    const cells = cellsRef.current;
+    switch (event.type) {
+      case "phase":
+        phasesRef.current.push(event.phase);
+        break;
+      case "visit":
+        dijkstraRunRef.current.expanded++;
         if (
-          isInBounds(nx, ny) &&
-          !visited[ny][nx] &&
-          (cells[ny][nx].status === "passage" ||
-            cells[ny][nx].status === "target")
+          cells[event.y][event.x].status !== "source" &&
+          cells[event.y][event.x].status !== "target"
         ) {
-          if (distances[y][x] + 1 < distances[ny][nx]) {
-            distances[ny][nx] = distances[y][x] + 1;
-            predecessors[ny][nx] = { x, y };
-            queue.push({ x: nx, y: ny, dist: distances[ny][nx] });
-          }
+          setCellStatus(
+            dijkstraTimelineRef.current,
+            event.x,
+            event.y,
+            "visited"
+          );
         }
-      });
-      if (visited[targetY][targetX]) break;
-    }
-    if (visited[targetY][targetX]) {
-      animateShortestPath(source, target, predecessorsRef.current);
+        break;
+      case "path":
+        dijkstraRunRef.current.path = {
+          length: event.path.length - 1,
+          cost: event.cost,
+        };
+        animateShortestPath(event.path);
+        break;
+      case "unreachable":
+        markTargetUnreachable(event.reachable);
+        break;
     }
   }
 
-  function animateShortestPath(
-    source: { x: number; y: number },
-    target: { x: number; y: number },
-    predecessors: Array<Array<{ x: number; y: number } | null>>
-  ): void {
-    const path: Array<{ x: number; y: number }> = [];
-    let u: { x: number; y: number } | null = target;
-    while (u !== null) {
-      path.push(u);
-      if (u.x === source.x && u.y === source.y) break;
-      u = predecessors[u.y][u.x];
-    }
-    let i = 1;
+  function animateShortestPath(path: Point[]): void {
+    updateSearchStatus("found");
+    // The cells change within the step, only drawing them is animated
+    const pathCells = path.slice(1, -1);
+    pathCells.forEach(({ x, y }) =>
+      setCellStatus(dijkstraTimelineRef.current, x, y, "shortestPath", false)
+    );
+    let i = 0;
     shortestPathAnimatingRef.current = true;
     function step(): void {
       if (!shortestPathAnimatingRef.current) return;
-      if (i >= path.length - 1) {
+      if (i >= pathCells.length) {
         shortestPathAnimatingRef.current = false;
         return;
       }
-      const { x, y } = path[i++];
-      cellsRef.current[y][x].status = "shortestPath";
-      drawCell(x, y, "shortestPath");
+      const { x, y } = pathCells[i++];
+      drawCell(x, y, cellsRef.current[y][x].status);
       requestAnimationFrame(step);
     }
     requestAnimationFrame(step);
   }
 
   function dijkstraPlay(): void {
-    if (!dijkstraPaused) {
+    // Replay from the current step after seeking back, otherwise start over
+    const timeline = dijkstraTimelineRef.current;
+    if (!dijkstraPaused && timeline.position === timeline.length) {
       clearDijkstraResults();
       dijkstraInitialization();
     }
-    if (dijkstraRunningRef.current) return;
-    dijkstraRunningRef.current = true;
+    if (schedulerRef.current.running) return;
     setDijkstraRunning(true);
     setDijkstraPaused(false);
-    dijkstraStepLoop();
-    setDijkstraChunkSize((cols + rows) / 16);
+    schedulerRef.current.start({
+      step() {
+        dijkstraOneStep();
+        return !isSearchFinished();
+      },
+      onFinish: () => setDijkstraRunning(false),
+    });
+  }
+
+  // Runs the search again from its first step, for recording
+  function restartSearch(): void {
+    clearDijkstraResults();
+    dijkstraInitialization();
+    dijkstraPlay();
   }
 
   function dijkstraStop(): void {
-    dijkstraRunningRef.current = false;
+    schedulerRef.current.stop();
     setDijkstraRunning(false);
     setDijkstraPaused(true);
-    setDijkstraChunkSize(1);
-  }
-  function dijkstraStepLoop(): void {
-    if (!dijkstraRunningRef.current) return;
-    dijkstraOneStep();
-    if (target !== null && visitedRef.current[target.y][target.x]) {
-      dijkstraRunningRef.current = false;
-      setDijkstraRunning(false);
-      return;
-    }
-    requestAnimationFrame(dijkstraStepLoop);
+  }
+
+  function handleSpeedChange(stepsPerSecond: number): void {
+    setSpeed(stepsPerSecond);
+    schedulerRef.current.setSpeed(stepsPerSecond);
   }
 
   /* ==== GRID INTERACTION AND CLEARING ==== */
@@ -444,21 +667,89 @@ export default function PrimMazeGeneration() {
     }
   }
 
+  function handleMouseMove(event: React.MouseEvent<HTMLCanvasElement>): void {
+    const canvas = canvasRef.current;
+    if (canvas === null) return;
+    const rect = canvas.getBoundingClientRect();
+    const x = Math.floor(
+      ((event.clientX - rect.left) * canvas.width) / rect.width
+    );
+    const y = Math.floor(
+      ((event.clientY - rect.top) * canvas.height) / rect.height
+    );
+    const container = containerRef.current;
+    if (container === null || x < 0 || y < 0 || x >= cols || y >= rows) {
+      setHoveredCell(null);
+      return;
+    }
+    setHoveredCell(
+      getHoveredCell(container, { x, y }, event.clientX, event.clientY)
+    );
+  }
+
+  // Cells the overlays draw, including the source the search started from
+  function isSearchedCell(x: number, y: number): boolean {
+    const { status } = cellsRef.current[y][x];
+    return (
+      status !== "blocked" && status !== "passage" && status !== "frontier"
+    );
+  }
+
+  // What the search knows about a cell, in the order the inspector lists it
+  function getInspectorDetails({ x, y }: Point): InspectorDetail[] {
+    const search = dijkstraSearchRef.current;
+    if (search === null) return [];
+    return [
+      { label: "Distance", value: search.forward.distances[y][x] },
+      { label: "Predecessor", value: search.forward.predecessors[y][x] },
+    ];
+  }
+
+  // A finished maze is cropped or extended with open cells, keeping the
+  // endpoints that still fit, while an unfinished one is grown again
+  function resizeMaze(size: GridSize): void {
+    schedulerRef.current.stop();
+    setPrimRunning(false);
+    setDijkstraRunning(false);
+    if (isMazeComplete) {
+      const scenario = getScenario();
+      pendingSetupRef.current = {
+        ...scenario,
+        ...resizeLayout(scenario, size),
+        mazeSeed: null,
+      };
+    } else {
+      setSource(null);
+      setTarget(null);
+    }
+    setCols(size.cols);
+    setRows(size.rows);
+  }
+
   function clearMaze(): void {
-    frontierListRef.current = [];
+    primMazeRef.current = null;
+    primRunnerRef.current = null;
+    primTimelineRef.current.clear();
     setSource(null);
     setTarget(null);
     setDrawingMode("");
+    schedulerRef.current.stop();
     setDijkstraRunning(false);
     setPrimRunning(false);
-    dijkstraRunningRef.current = false;
-    primRunningRef.current = false;
-    dijkstraQueueRef.current = [];
+    dijkstraSearchRef.current = null;
+    dijkstraRunnerRef.current = null;
+    dijkstraTimelineRef.current.clear();
+    syncTimelines();
     setIsMazeComplete(false);
     shortestPathAnimatingRef.current = false;
+    updateSearchStatus("idle");
     cellsRef.current.forEach((row, y) => {
       row.forEach((cell, x) => {
-        if (cell.status === "visited" || cell.status === "shortestPath") {
+        if (
+          cell.status === "visited" ||
+          cell.status === "shortestPath" ||
+          cell.status === "reachable"
+        ) {
           cell.status = "passage";
           drawCell(x, y, "passage");
         }
@@ -467,37 +758,120 @@ export default function PrimMazeGeneration() {
     const blankGrid: cellType[][] = Array.from({ length: rows }, () =>
       Array.from({ length: cols }, () => ({ status: "blocked" }))
     );
-    distancesRef.current = Array.from({ length: rows }, () =>
-      Array.from({ length: cols }, () => Number.POSITIVE_INFINITY)
-    );
-    visitedRef.current = Array.from({ length: rows }, () =>
-      Array.from({ length: cols }, () => false)
-    );
-    predecessorsRef.current = Array.from({ length: rows }, () =>
-      Array.from({ length: cols }, () => null)
-    );
     cellsRef.current = blankGrid;
     cellsRef.current.forEach((row, y) =>
       row.forEach((cell, x) => {
         drawCell(x, y, "blocked");
       })
     );
-    const randOdd = (max: number): number => {
-      const n = Math.floor(Math.random() * Math.floor(max / 2)) * 2 + 1;
-      return Math.min(n, max - 1);
+    primInitialization();
+  }
+
+  /* ==== SCENARIO FILES ==== */
+  function getScenario(): Scenario {
+    return {
+      cols,
+      rows,
+      costs: cellsRef.current.map((row) =>
+        row.map(({ status }) => (status === "blocked" ? 0 : 1))
+      ),
+      source,
+      target,
+      settings: { movement },
     };
-    primInitialization(randOdd(cols), randOdd(rows));
+  }
+
+  function getSharedSetup(): SharedSetup {
+    return { ...getScenario(), mazeSeed: mazeSeedRef.current };
+  }
+
+  async function loadScenarioFile(file: File): Promise<void> {
+    const result = await readScenarioFile(file);
+    if (result.ok) {
+      requestSetup({ ...result.scenario, mazeSeed: null });
+    } else {
+      setScenarioError(result.error);
+    }
+  }
+
+  // Loads a setup from a file or link, first resizing the grid if needed
+  function requestSetup(setup: SharedSetup): void {
+    const error = getMazeScenarioError(setup, minMazeSize, maxMazeSize);
+    setScenarioError(error);
+    if (error !== null) return;
+
+    if (setup.cols === cols && setup.rows === rows) {
+      loadSetup(setup);
+    } else {
+      pendingSetupRef.current = setup;
+      setCols(setup.cols);
+      setRows(setup.rows);
+    }
+  }
+
+  // Replace the maze with a finished one, grown again from its seed or read
+  // cell by cell
+  function loadSetup(setup: SharedSetup): void {
+    const { costs, mazeSeed, settings } = setup;
+    let { source, target } = setup;
+    setPrimRunning(false);
+    clearDijkstraResults();
+    if (mazeSeed !== null) {
+      primInitialization(mazeSeed);
+      while (!isPrimFinished()) takePrimStep();
+    } else if (costs !== null) {
+      primMazeRef.current = null;
+      primRunnerRef.current = null;
+      primTimelineRef.current.clear();
+      mazeSeedRef.current = null;
+      cellsRef.current = costs.map((row) =>
+        row.map((cost): cellType => ({
+          status: cost === 0 ? "blocked" : "passage",
+        }))
+      );
+    }
+    syncTimelines();
+
+    // A seed only shows where its walls are once the maze is grown
+    const walled = [source, target].find(
+      (point) => point !== null && !isOpen(point.x, point.y)
+    );
+    if (walled != null) {
+      setScenarioError(`The cell (${walled.x}, ${walled.y}) is a wall.`);
+      source = null;
+      target = null;
+    }
+    const cells = cellsRef.current;
+    if (source !== null) cells[source.y][source.x].status = "source";
+    if (target !== null) cells[target.y][target.x].status = "target";
+    cells.forEach((row, y) =>
+      row.forEach((cell, x) => drawCell(x, y, cell.status))
+    );
+
+    setSource(source);
+    setTarget(target);
+    setIsMazeComplete(true);
+    setDrawingMode(source !== null && target === null ? "target" : "source");
+    if (settings.movement !== undefined) setMovement(settings.movement);
   }
 
   function clearDijkstraResults(): void {
-    dijkstraRunningRef.current = false;
+    schedulerRef.current.stop();
     setDijkstraRunning(false);
     setDijkstraPaused(false);
-    dijkstraQueueRef.current = [];
+    dijkstraSearchRef.current = null;
+    dijkstraRunnerRef.current = null;
+    dijkstraTimelineRef.current.clear();
+    syncTimelines();
     shortestPathAnimatingRef.current = false;
+    updateSearchStatus("idle");
     cellsRef.current.forEach((row, y) => {
       row.forEach((cell, x) => {
-        if (cell.status === "visited" || cell.status === "shortestPath") {
+        if (
+          cell.status === "visited" ||
+          cell.status === "shortestPath" ||
+          cell.status === "reachable"
+        ) {
           cell.status = "passage";
           drawCell(x, y, "passage");
         }
@@ -511,15 +885,6 @@ export default function PrimMazeGeneration() {
       cellsRef.current[target.y][target.x].status = "target";
       drawCell(target.x, target.y, "target");
     }
-    visitedRef.current = Array(rows)
-      .fill(null)
-      .map(() => Array(cols).fill(false));
-    distancesRef.current = Array(rows)
-      .fill(null)
-      .map(() => Array(cols).fill(Number.POSITIVE_INFINITY));
-    predecessorsRef.current = Array(rows)
-      .fill(null)
-      .map(() => Array(cols).fill(null));
   }
 
   useEffect((): void => {
@@ -538,7 +903,7 @@ export default function PrimMazeGeneration() {
     htmlEl: HTMLElement
   ): void {
     const canvas = canvasRef.current!;
-    const container = canvas.parentElement!;
+    const container = containerRef.current!;
     const canvasRect = canvas.getBoundingClientRect();
     const containerRect = container.getBoundingClientRect();
     const cellW = canvasRect.width / cols;
@@ -549,6 +914,13 @@ export default function PrimMazeGeneration() {
     htmlEl.style.left = `${left}px`;
     htmlEl.style.top = `${top}px`;
     htmlEl.style.transform = `translate(-50%, -100%)`;
+    // Hide the tooltip while its cell is zoomed out of view
+    const inView =
+      left >= 0 &&
+      top >= 0 &&
+      left <= containerRect.width &&
+      top <= containerRect.height;
+    htmlEl.style.visibility = inView ? "" : "hidden";
   }
 
   useEffect((): void => {
@@ -558,7 +930,7 @@ export default function PrimMazeGeneration() {
     if (sourceElement !== null) {
       setHTMLOverlayToCanvas(source, sourceElement);
     }
-  }, [dimensions, source]);
+  }, [dimensions, source, view]);
 
   useEffect((): void => {
     if (target === null) return;
@@ -567,7 +939,7 @@ export default function PrimMazeGeneration() {
     if (targetElement !== null) {
       setHTMLOverlayToCanvas(target, targetElement);
     }
-  }, [dimensions, target]);
+  }, [dimensions, target, view]);
 
   return (
     <>
@@ -578,10 +950,7 @@ export default function PrimMazeGeneration() {
             <div className="join join-horizontal flex justify-center">
               <button
                 className="join-item btn btn-primary w-36"
-                onMouseDown={() => {
-                  setPrimChunkSize(1);
-                  primOneStep();
-                }}
+                onMouseDown={primOneStep}
                 disabled={primRunning || isMazeComplete}
               >
                 One Step Prim
@@ -637,10 +1006,7 @@ export default function PrimMazeGeneration() {
               <button
                 className="join-item btn btn-primary"
                 disabled={!isMazeComplete || source === null || target === null}
-                onMouseDown={() => {
-                  setDijkstraChunkSize(1);
-                  dijkstraOneStep();
-                }}
+                onMouseDown={dijkstraOneStep}
               >
                 One Step Dijkstra
               </button>
@@ -652,43 +1018,185 @@ export default function PrimMazeGeneration() {
                 {dijkstraRunning ? "Stop Dijkstra" : "Play Dijkstra"}
               </button>
             </div>
-          </div>
-          <div className="relative mx-auto flex justify-center">
-            <canvas
-              ref={canvasRef}
-              className="w-[700px] cursor-pointer touch-none select-none shadow-md"
-              style={{ imageRendering: "pixelated" }}
-              onMouseDown={handleMouseClick}
-            />
-            {source !== null && (
-              <div
-                className="prim-source-node tooltip tooltip-top tooltip-open tooltip-error absolute font-bold opacity-80"
-                data-tip="Source Node"
+            <div className="flex justify-center">
+              <SpeedControl
+                stepsPerSecond={speed}
+                onChange={handleSpeedChange}
               />
-            )}
-            {target !== null && (
-              <div
-                className="prim-target-node tooltip tooltip-top tooltip-open tooltip-success absolute font-bold opacity-80"
-                data-tip="Target Node"
+            </div>
+            {/* Timelines of the recorded steps */}
+            <div className="flex flex-col items-center gap-1">
+              <TimelineSlider
+                label="Prim"
+                position={primTimeline.position}
+                length={primTimeline.length}
+                disabled={primRunning || source !== null}
+                onSeek={seekPrim}
               />
-            )}
-            <div className="bg-transparent text-center font-bold">
-              {!isMazeComplete && !primRunning && (
-                <div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-base-300/40 px-3 py-1 text-sm shadow-md">
-                  Click "One Step Prim" or "Play Prim" to build the maze
-                </div>
+              <TimelineSlider
+                label="Dijkstra"
+                position={dijkstraTimeline.position}
+                length={dijkstraTimeline.length}
+                disabled={dijkstraRunning}
+                onSeek={seekDijkstra}
+              />
+            </div>
+            <OverlayToggles
+              heatmap={showHeatmap}
+              tree={showTree}
+              onHeatmapChange={setShowHeatmap}
+              onTreeChange={setShowTree}
+            />
+            <div className="flex justify-center">
+              <MovementSelect
+                movement={movement}
+                disabled={dijkstraRunning}
+                onChange={(movement) => {
+                  setMovement(movement);
+                  clearDijkstraResults();
+                }}
+              />
+            </div>
+          </div>
+          <div className="flex flex-col items-center justify-center gap-4 xl:flex-row xl:items-start">
+            <div
+              ref={containerRef}
+              className="relative mx-auto flex w-[700px] justify-center"
+              data-search-status={searchStatus}
+            >
+              <ZoomPanView
+                canvasRef={canvasRef}
+                cols={cols}
+                rows={rows}
+                view={view}
+                onViewChange={setView}
+              >
+                <canvas
+                  ref={canvasRef}
+                  className="w-full cursor-pointer touch-none select-none shadow-md"
+                  style={{ imageRendering: "pixelated" }}
+                  {...getScenarioDropHandlers(loadScenarioFile)}
+                  onMouseDown={handleMouseClick}
+                  onMouseMove={handleMouseMove}
+                  onMouseLeave={() => setHoveredCell(null)}
+                />
+                <SearchOverlay
+                  canvasRef={canvasRef}
+                  search={dijkstraSearchRef.current}
+                  cols={cols}
+                  rows={rows}
+                  heatmap={showHeatmap}
+                  tree={showTree}
+                  isSearched={isSearchedCell}
+                  version={dijkstraTimeline.position}
+                />
+              </ZoomPanView>
+              {source !== null && (
+                <div
+                  className="prim-source-node tooltip tooltip-top tooltip-open tooltip-error absolute font-bold opacity-80"
+                  data-tip="Source Node"
+                />
               )}
-              {primRunning && (
-                <div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-primary/40 px-3 py-1 text-sm shadow-md">
-                  Building maze...
-                </div>
+              {target !== null && (
+                <div
+                  className="prim-target-node tooltip tooltip-top tooltip-open tooltip-success absolute font-bold opacity-80"
+                  data-tip="Target Node"
+                />
               )}
-              {isMazeComplete && source === null && target === null && (
-                <div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-success/40 px-3 py-1 text-sm shadow-md">
-                  Maze complete! Place source and target points
-                </div>
+              <div className="bg-transparent text-center font-bold">
+                {!isMazeComplete && !primRunning && (
+                  <div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-base-300/40 px-3 py-1 text-sm shadow-md">
+                    Click "One Step Prim" or "Play Prim" to build the maze
+                  </div>
+                )}
+                {primRunning && (
+                  <div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-primary/40 px-3 py-1 text-sm shadow-md">
+                    Building maze...
+                  </div>
+                )}
+                {isMazeComplete && source === null && target === null && (
+                  <div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-success/40 px-3 py-1 text-sm shadow-md">
+                    Maze complete! Place source and target points
+                  </div>
+                )}
+                {searchStatus === "unreachable" && !dijkstraRunning && (
+                  <div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-error/40 px-3 py-1 text-sm shadow-md">
+                    Target unreachable!
+                  </div>
+                )}
+              </div>
+              {hoveredCell !== null && (
+                <CellInspector
+                  {...hoveredCell}
+                  status={
+                    cellsRef.current[hoveredCell.cell.y][hoveredCell.cell.x]
+                      .status
+                  }
+                  details={getInspectorDetails(hoveredCell.cell)}
+                  note={
+                    dijkstraTimeline.position < dijkstraTimeline.length
+                      ? `Search data as of step ${dijkstraTimeline.length}`
+                      : undefined
+                  }
+                />
               )}
             </div>
+            {/* The search takes over the panel once it has taken a step */}
+            {dijkstraTimeline.length > 0 ? (
+              <div className="flex w-full max-w-md flex-col gap-4">
+                <PseudocodePanel
+                  title="Dijkstra"
+                  lines={getSearchPseudocode("dijkstra")}
+                  phases={dijkstraPhases}
+                />
+                <QueuePanel
+                  title="Queue"
+                  size={dijkstraSearchRef.current?.forward.queue.size ?? 0}
+                  getEntries={(count) =>
+                    dijkstraSearchRef.current?.forward.queue
+                      .peekSmallest(count)
+                      .map(({ x, y, dist }) => ({ x, y, value: dist })) ?? []
+                  }
+                  queue={dijkstraSearchRef.current?.forward.queue ?? null}
+                  version={dijkstraTimeline.length}
+                  highlightNext
+                  sizes={dijkstraTimelineRef.current
+                    .getAppliedData()
+                    .map(({ queueSize }) => queueSize)}
+                  note={
+                    dijkstraTimeline.position < dijkstraTimeline.length
+                      ? `Queue as of step ${dijkstraTimeline.length}`
+                      : undefined
+                  }
+                />
+              </div>
+            ) : (
+              <div className="flex w-full max-w-md flex-col gap-4">
+                <PseudocodePanel
+                  title="Prim"
+                  lines={primPseudocode}
+                  phases={primPhases}
+                />
+                <QueuePanel
+                  title="Frontier"
+                  size={primMazeRef.current?.frontier.length ?? 0}
+                  getEntries={(count) =>
+                    primMazeRef.current?.frontier.slice(0, count) ?? []
+                  }
+                  queue={primMazeRef.current?.frontier ?? null}
+                  version={primTimeline.length}
+                  highlightNext={false}
+                  sizes={primTimelineRef.current
+                    .getAppliedData()
+                    .map(({ frontierSize }) => frontierSize)}
+                  note={
+                    primTimeline.position < primTimeline.length
+                      ? `Frontier as of step ${primTimeline.length}`
+                      : "Prim takes a random frontier cell next"
+                  }
+                />
+              </div>
+            )}
           </div>
         </div>
         {/* Clearing  */}
@@ -705,29 +1213,49 @@ export default function PrimMazeGeneration() {
               Clear Dijkstra
             </button>
           </div>
-          <div className="flex w-full flex-col items-center p-4 text-center">
-            <input
-              type="range"
-              min={5}
-              max={251}
-              value={rows}
-              step={2}
-              className="range range-primary range-sm w-full max-w-xs"
-              onChange={(e) => {
-                const value = Number(e.target.value);
-                setRows(value);
-                setCols(value);
-                setPrimChunkSize(1);
-                setDijkstraChunkSize(1);
-                setSource(null);
-                setTarget(null);
-                setIsMazeComplete(false);
-              }}
+          <ScenarioControls
+            fileName="prim-scenario.json"
+            canSave={isMazeComplete}
+            getScenario={getScenario}
+            getSharedSetup={getSharedSetup}
+            onFile={loadScenarioFile}
+            error={scenarioError}
+            onDismissError={() => setScenarioError(null)}
+          />
+          <ExportMenu
+            canvasRef={canvasRef}
+            cols={cols}
+            rows={rows}
+            fileName="prim-maze"
+            runs={[
+              {
+                label: "Prim",
+                start() {
+                  clearMaze();
+                  primPlay();
+                },
+              },
+              {
+                label: "Dijkstra",
+                disabled: !isMazeComplete || source === null || target === null,
+                start: restartSearch,
+              },
+            ]}
+            isRunning={() =>
+              schedulerRef.current.running || shortestPathAnimatingRef.current
+            }
+          />
+          <RunStatsTable runs={runs} onClear={() => setRuns([])} />
+          <div className="flex w-full flex-col items-center gap-2 p-4 text-center">
+            <GridSizeControls
+              cols={cols}
+              rows={rows}
+              min={minMazeSize}
+              max={maxMazeSize}
+              odd
+              onResize={resizeMaze}
             />
-            <span className="mt-2 text-sm opacity-40">Maze Size</span>
-            <span className="mt-1 text-sm font-semibold opacity-40">
-              {rows} x {cols}
-            </span>
+            <span className="text-sm opacity-40">Maze Size</span>
           </div>
         </div>
       </div>
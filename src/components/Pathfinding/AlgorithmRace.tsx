@@ -0,0 +1,254 @@
+import { useEffect, useRef, useState } from "react";
+import { GridLayout } from "../../algorithms/gridLayout";
+import { SearchAlgorithm } from "../../algorithms/gridSearch";
+import { createStepScheduler } from "../../algorithms/stepScheduler";
+import SpeedControl from "../AlgorithmControls/SpeedControl";
+import DijkstraGridDrawer, {
+  DijkstraGridDrawerHandle,
+} from "./DijsktraPathDrawer";
+
+interface AlgorithmRaceProps {
+  cols: number;
+  rows: number;
+}
+
+// Algorithm each lane starts with, in the order lanes are added
+const laneAlgorithms: SearchAlgorithm[] = [
+  "dijkstra",
+  "bfs",
+  "astar",
+  "greedy",
+];
+
+const laneCounts = [2, 3, 4];
+
+// Side by side on wide screens, two per row otherwise
+const laneGridColumns: Record<number, string> = {
+  2: "md:grid-cols-2",
+  3: "md:grid-cols-2 2xl:grid-cols-3",
+  4: "md:grid-cols-2 2xl:grid-cols-4",
+};
+
+const placeLabels = ["1st", "2nd", "3rd", "4th"];
+
+// Race steps per second, each taking one step on every lane
+const defaultSpeed = 100;
+
+export default function AlgorithmRace({ cols, rows }: AlgorithmRaceProps) {
+  const lanesRef = useRef<Array<DijkstraGridDrawerHandle | null>>([]);
+  // Walls and endpoints drawn on the first lane
+  const layoutRef = useRef<GridLayout | null>(null);
+  const schedulerRef = useRef(createStepScheduler(defaultSpeed));
+  const raceStepRef = useRef(0);
+  // Race step after which each lane finished, null while it is searching
+  const finishedAtRef = useRef<Array<number | null>>([]);
+
+  const [laneCount, setLaneCount] = useState(3);
+  const [raceRunning, setRaceRunning] = useState(false);
+  const [speed, setSpeed] = useState(defaultSpeed);
+  const [raceStep, setRaceStep] = useState(0);
+  const [finishedAt, setFinishedAt] = useState<Array<number | null>>([]);
+  const [hasEndpoints, setHasEndpoints] = useState(false);
+
+  function getLanes(): Array<DijkstraGridDrawerHandle | null> {
+    return lanesRef.current.slice(0, laneCount);
+  }
+
+  function isRaceOver(): boolean {
+    return (
+      finishedAtRef.current.filter((step) => step != null).length === laneCount
+    );
+  }
+
+  function syncRace(): void {
+    setRaceStep(raceStepRef.current);
+    setFinishedAt([...finishedAtRef.current]);
+  }
+
+  // Step every lane still searching once, returning whether any is left
+  function stepRace(): boolean {
+    raceStepRef.current++;
+    const lanes = getLanes();
+    let searching = false;
+    for (let i = 0; i < lanes.length; i++) {
+      const lane = lanes[i];
+      if (lane == null || finishedAtRef.current[i] != null) continue;
+      if (lane.step()) {
+        finishedAtRef.current[i] = raceStepRef.current;
+      } else {
+        searching = true;
+      }
+    }
+    return searching;
+  }
+
+  /* ==== RACE CONTROL FUNCTIONS ==== */
+  function raceOneStep(): void {
+    if (isRaceOver()) return;
+    stepRace();
+    syncRace();
+  }
+
+  function racePlay(): void {
+    if (schedulerRef.current.running) return;
+    if (isRaceOver()) resetRace();
+
+    setRaceRunning(true);
+    schedulerRef.current.start({
+      step: stepRace,
+      afterSteps: syncRace,
+      onFinish: () => setRaceRunning(false),
+    });
+  }
+
+  function raceStop(): void {
+    schedulerRef.current.stop();
+    setRaceRunning(false);
+  }
+
+  function handleSpeedChange(stepsPerSecond: number): void {
+    setSpeed(stepsPerSecond);
+    schedulerRef.current.setSpeed(stepsPerSecond);
+  }
+
+  // Clear the results of every lane, copying the first lane's grid to the rest
+  function resetRace(): void {
+    raceStop();
+    raceStepRef.current = 0;
+    finishedAtRef.current = [];
+    syncRace();
+
+    const layout = layoutRef.current;
+    getLanes().forEach((lane, i) => {
+      if (i > 0 && layout != null) {
+        lane?.loadLayout(layout);
+      } else {
+        lane?.clearResults();
+      }
+    });
+  }
+
+  function handleLayoutChange(layout: GridLayout): void {
+    layoutRef.current = layout;
+    setHasEndpoints(layout.source != null && layout.target != null);
+    raceStop();
+    raceStepRef.current = 0;
+    finishedAtRef.current = [];
+    syncRace();
+
+    // The first lane already cleared its results when it was drawn on
+    getLanes()
+      .slice(1)
+      .forEach((lane) => lane?.loadLayout(layout));
+  }
+
+  // Adding or removing a lane starts the race over. Added lanes copy the grid
+  // themselves once they are set up, through their initial layout.
+  useEffect(() => {
+    resetRace();
+  }, [laneCount]);
+
+  // Stop stepping once the lanes are gone
+  useEffect(() => () => schedulerRef.current.stop(), []);
+
+  return (
+    <div className="flex w-full flex-col items-center gap-4">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <div className="join join-horizontal">
+          <button
+            className="join-item btn btn-primary"
+            disabled={!hasEndpoints || raceRunning}
+            onMouseDown={raceOneStep}
+            title="Run a single step of every algorithm"
+          >
+            One Step
+          </button>
+          <button
+            className="join-item btn btn-primary w-32"
+            disabled={!hasEndpoints}
+            onClick={raceRunning ? raceStop : racePlay}
+            title={
+              raceRunning ? "Stop the race" : "Run every algorithm in lockstep"
+            }
+          >
+            {raceRunning ? "Stop Race" : "Play Race"}
+          </button>
+          <button
+            className="join-item btn btn-primary"
+            disabled={raceStep === 0}
+            onClick={resetRace}
+            title="Clear the results of every lane, keeping the grid"
+          >
+            Reset
+          </button>
+        </div>
+        <div className="join join-horizontal" title="Number of lanes">
+          {laneCounts.map((count) => (
+            <button
+              key={count}
+              className={`join-item btn btn-primary ${laneCount === count ? "" : "btn-outline"}`}
+              disabled={raceRunning}
+              onClick={() => setLaneCount(count)}
+            >
+              {count} lanes
+            </button>
+          ))}
+        </div>
+        <SpeedControl stepsPerSecond={speed} onChange={handleSpeedChange} />
+        <span className="badge badge-ghost">Step {raceStep}</span>
+      </div>
+      <div className="text-sm font-semibold opacity-70">
+        Draw walls, a source and a target on the first lane, every other lane
+        copies them
+      </div>
+      <div className={`grid gap-4 ${laneGridColumns[laneCount]}`}>
+        {laneAlgorithms.slice(0, laneCount).map((algorithm, i) => {
+          const finishStep = finishedAt[i] ?? null;
+          const place =
+            finishStep == null
+              ? null
+              : 1 +
+                finishedAt.filter((step) => step != null && step < finishStep)
+                  .length;
+          return (
+            <div
+              key={i}
+              className="card bg-base-100/80 w-[min(90vw,420px)] shadow-md"
+            >
+              <div className="card-body gap-2 p-4">
+                <h3 className="card-title text-base">
+                  Lane {i + 1}
+                  {i === 0 && (
+                    <span className="badge badge-ghost">Draw here</span>
+                  )}
+                  {place != null && (
+                    <span
+                      className={`badge ${place === 1 ? "badge-success" : "badge-primary"}`}
+                    >
+                      {placeLabels[place - 1]} after {finishStep} steps
+                    </span>
+                  )}
+                </h3>
+                <DijkstraGridDrawer
+                  ref={(lane) => {
+                    lanesRef.current[i] = lane;
+                  }}
+                  cols={cols}
+                  rows={rows}
+                  race={{
+                    initialAlgorithm: algorithm,
+                    editable: i === 0,
+                    // Lanes keep their settings until the race is reset
+                    locked: raceStep > 0 || raceRunning,
+                    initialLayout: i > 0 ? layoutRef.current : null,
+                    onLayoutChange: handleLayoutChange,
+                  }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,104 @@
-import { useRef, useEffect, useState } from "react";
+import { Ref, useRef, useEffect, useImperativeHandle, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  AlgorithmEvent,
+  AlgorithmPhase,
+} from "../../algorithms/algorithmEvents";
+import {
+  AlgorithmRunner,
+  createAlgorithmRunner,
+} from "../../algorithms/algorithmRunner";
+import {
+  DrawingTool,
+  drawingToolLabels,
+  getBrushCells,
+  getFloodFillCells,
+  getLineCells,
+  getRectangleCells,
+  maxBrushSize,
+} from "../../algorithms/drawingTools";
+import { createEditHistory } from "../../algorithms/editHistory";
+import { createGrid, GridSize, Point } from "../../algorithms/grid";
+import { GridLayout, resizeLayout } from "../../algorithms/gridLayout";
+import {
+  algorithmLabels,
+  createSearch,
+  informedAlgorithms,
+  Search,
+  SearchAlgorithm,
+  SearchFrontier,
+} from "../../algorithms/gridSearch";
+import { heuristicLabels, HeuristicName } from "../../algorithms/heuristics";
+import { getJumpLine } from "../../algorithms/jumpPointSearch";
+import { defaultMovement, Movement } from "../../algorithms/movement";
+import { MovingAiProblem, movingAiMovement } from "../../algorithms/movingAi";
+import { getSearchPseudocode } from "../../algorithms/pseudocode";
+import { getGridKey, RunStats } from "../../algorithms/runStats";
+import {
+  maxScenarioSize,
+  readScenarioFile,
+  Scenario,
+} from "../../algorithms/scenario";
+import { SearchStatus } from "../../algorithms/searchStatus";
+import {
+  decodeSharedSetup,
+  shareParam,
+  SharedSetup,
+} from "../../algorithms/shareLink";
+import { createStepScheduler } from "../../algorithms/stepScheduler";
+import { createTimeline } from "../../algorithms/timeline";
+import { fitView, ZoomView } from "../../algorithms/zoomView";
+import CellInspector, {
+  getHoveredCell,
+  HoveredCell,
+  InspectorDetail,
+} from "../AlgorithmControls/CellInspector";
+import ExportMenu from "../AlgorithmControls/ExportMenu";
+import GridSizeControls from "../AlgorithmControls/GridSizeControls";
+import OverlayToggles from "../AlgorithmControls/OverlayToggles";
+import PseudocodePanel from "../AlgorithmControls/PseudocodePanel";
+import QueuePanel, { QueueEntry } from "../AlgorithmControls/QueuePanel";
+import RunStatsTable from "../AlgorithmControls/RunStatsTable";
+import ScenarioControls, {
+  getScenarioDropHandlers,
+} from "../AlgorithmControls/ScenarioControls";
+import SearchOverlay from "../AlgorithmControls/SearchOverlay";
+import SpeedControl from "../AlgorithmControls/SpeedControl";
+import TimelineSlider from "../AlgorithmControls/TimelineSlider";
+import ZoomPanView, { getGridRect } from "../AlgorithmControls/ZoomPanView";
+import MovementSelect from "./MovementSelect";
+import MovingAiImport from "./MovingAiImport";
 
 // Types and interfaces
 interface DijkstraPathDrawerProps {
   rows: number;
   cols: number;
+  // Called whenever a run starts, finds a path or proves the target unreachable
+  onSearchStatusChange?: (status: SearchStatus) => void;
+  // Set when the grid is one lane of a race, stepped by the page around it
+  race?: RaceLane;
+  // Asks the page for a grid of another size, to load bigger scenarios and maps
+  onResize?: (size: GridSize) => void;
+  ref?: Ref<DijkstraGridDrawerHandle>;
+}
+
+export interface RaceLane {
+  initialAlgorithm: SearchAlgorithm;
+  // Whether walls and endpoints are drawn on this lane, the others copy them
+  editable: boolean;
+  locked: boolean;
+  // Walls and endpoints the lane is set up with, copied from the lane drawn on
+  // when a lane is added to the race
+  initialLayout?: GridLayout | null;
+  onLayoutChange?: (layout: GridLayout) => void;
+}
+
+// Lets a race step its lanes together
+export interface DijkstraGridDrawerHandle {
+  loadLayout: (layout: GridLayout) => void;
+  // Runs one step of the search, returning whether it has finished
+  step: () => boolean;
+  clearResults: () => void;
 }
 
 type CellStatus =
@@ -11,21 +106,61 @@ type CellStatus =
   | "passage"
   | "frontier"
   | "visited"
+  | "visitedReverse"
+  | "meetingPoint"
+  | "jumpPoint"
+  | "forcedNeighbor"
+  | "jump"
+  | "reachable"
   | "source"
   | "target"
   | "shortestPath";
 
 interface Cell {
   status: CellStatus;
+  // Cost of moving onto the cell, 1 for plain passages
+  weight: number;
 }
 
-interface Point {
-  x: number;
-  y: number;
+// Statuses painted by a search run, reset when the results are cleared
+const searchStatuses: CellStatus[] = [
+  "visited",
+  "visitedReverse",
+  "meetingPoint",
+  "jumpPoint",
+  "forcedNeighbor",
+  "jump",
+  "reachable",
+  "shortestPath",
+];
+
+// Search progress restored together with the cells when seeking the timeline
+interface SearchSnapshot {
+  status: SearchStatus;
+  expandedCount: number;
+  phases: AlgorithmPhase[];
+  // Queue size of the forward and, for bidirectional searches, reverse frontier
+  queueSizes: number[];
 }
 
-interface QueueItem extends Point {
-  dist: number;
+type DrawingMode = "blocked" | "passage" | "terrain" | "source" | "target";
+
+const terrainPresets = [
+  { label: "Mud", weight: 5 },
+  { label: "Water", weight: 10 },
+];
+
+const maxTerrainWeight = 50;
+
+// Smallest grid side, leaving room for a source and a target
+const minGridSize = 2;
+
+// Steps per second a new grid plays at
+const defaultSpeed = 1000;
+
+// Opacity of the shading drawn over weighted terrain, growing with the cost
+function getTerrainShade(weight: number): number {
+  return 0.1 + (0.5 * Math.log(weight)) / Math.log(maxTerrainWeight);
 }
 
 function getVar(name: string) {
@@ -35,37 +170,85 @@ function getVar(name: string) {
 export default function DijkstraGridDrawer({
   cols,
   rows,
+  onSearchStatusChange,
+  race,
+  onResize,
+  ref,
 }: DijkstraPathDrawerProps) {
   // Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Positions the tooltips and inspector, which are not zoomed with the grid
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sourceTooltipRef = useRef<HTMLDivElement>(null);
+  const targetTooltipRef = useRef<HTMLDivElement>(null);
   const cellsRef = useRef<Cell[][]>([]);
   const lastPosRef = useRef<Point | null>(null);
+  // Where a line or rectangle started, and the cells of its preview
+  const shapeStartRef = useRef<Point | null>(null);
+  const previewRef = useRef<Point[]>([]);
 
   // Algorithm state refs
-  const distancesRef = useRef<number[][]>([]);
-  const visitedRef = useRef<boolean[][]>([]);
-  const predecessorsRef = useRef<Point[][]>([]);
-  const dijkstraQueueRef = useRef<QueueItem[]>([]);
-  const dijkstraChunkSizeRef = useRef(1);
-  const dijkstraRunningRef = useRef(false);
+  const searchRef = useRef<Search | null>(null);
+  const searchRunnerRef = useRef<AlgorithmRunner | null>(null);
+  const timelineRef = useRef(createTimeline<CellStatus, SearchSnapshot>());
+  const schedulerRef = useRef(createStepScheduler(defaultSpeed));
   const shortestPathAnimatingRef = useRef(false);
+  const expandedCountRef = useRef(0);
+  const searchStatusRef = useRef<SearchStatus>("idle");
+  // Pseudocode lines reached by the step being taken
+  const phasesRef = useRef<AlgorithmPhase[]>([]);
+  // Measurements of the current run, recorded once it finishes
+  const runTimeRef = useRef(0);
+  const runPathRef = useRef<{ length: number; cost: number } | null>(null);
+  // Loaded once the page has resized the grid to the scenario's size
+  const pendingScenarioRef = useRef<Scenario | null>(null);
+  // Strokes and endpoint moves that can be undone, one entry per edit
+  const historyRef = useRef(createEditHistory<Cell>());
+  // The latest undo and redo, for the keyboard shortcut listener
+  const historyActionsRef = useRef({ undoEdit, redoEdit });
 
   // UI state
   const [isDrawing, setIsDrawing] = useState(false);
-  const [drawingMode, setDrawingMode] = useState<
-    "blocked" | "passage" | "source" | "target"
-  >("blocked");
+  const [hoveredCell, setHoveredCell] = useState<HoveredCell | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [showTree, setShowTree] = useState(false);
+  const [drawingMode, setDrawingMode] = useState<DrawingMode>("blocked");
+  const [terrainWeight, setTerrainWeight] = useState(terrainPresets[0].weight);
+  const [drawingTool, setDrawingTool] = useState<DrawingTool>("brush");
+  const [brushSize, setBrushSize] = useState(1);
   const [source, setSource] = useState<Point | null>(null);
   const [target, setTarget] = useState<Point | null>(null);
   const [dimensions, setDimensions] = useState({
     width: window.innerWidth,
     height: window.innerHeight,
   });
-  const [dijkstraChunkSize, setDijkstraChunkSize] = useState(1);
+  const [view, setView] = useState<ZoomView>(fitView);
+  const [speed, setSpeed] = useState(defaultSpeed);
   const [dijkstraRunning, setDijkstraRunning] = useState(false);
   const [dijkstraPaused, setDijkstraPaused] = useState(false);
   const [pathFound, setPathFound] = useState(false);
   const [pathLength, setPathLength] = useState(0);
+  const [pathCost, setPathCost] = useState(0);
+  const [expandedCount, setExpandedCount] = useState(0);
+  const [searchStatus, setSearchStatus] = useState<SearchStatus>("idle");
+  const [timelinePosition, setTimelinePosition] = useState(0);
+  const [timelineLength, setTimelineLength] = useState(0);
+  const [searchPhases, setSearchPhases] = useState<AlgorithmPhase[]>([]);
+  const [algorithm, setAlgorithm] = useState<SearchAlgorithm>(
+    race?.initialAlgorithm ?? "dijkstra"
+  );
+  const [heuristic, setHeuristic] = useState<HeuristicName>("manhattan");
+  const [heuristicWeight, setHeuristicWeight] = useState(1);
+  const [movement, setMovement] = useState<Movement>(defaultMovement);
+  const [runs, setRuns] = useState<RunStats[]>([]);
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+  const [searchParams] = useSearchParams();
+  const sharedSetup = searchParams.get(shareParam);
+
+  const canDraw = race == null || race.editable;
+  const settingsLocked = dijkstraRunning || race?.locked === true;
 
   /* ==== HELPER FUNCTIONS ==== */
   function isInBounds(x: number, y: number): boolean {
@@ -89,6 +272,32 @@ export default function DijkstraGridDrawer({
       case "visited":
         ctx.fillStyle = getVar("--color-primary");
         break;
+      case "visitedReverse":
+        ctx.fillStyle = getVar("--color-info");
+        break;
+      case "meetingPoint":
+        ctx.fillStyle = getVar("--color-accent");
+        break;
+      case "jumpPoint":
+        ctx.fillStyle = getVar("--color-warning");
+        break;
+      case "forcedNeighbor":
+        ctx.fillStyle = getVar("--color-neutral");
+        break;
+      case "jump":
+        // Jumps are a lighter shade of the visited color
+        ctx.fillStyle = getVar("--color-base-100");
+        ctx.fillRect(x, y, 1, 1);
+        ctx.globalAlpha = 0.45;
+        ctx.fillStyle = getVar("--color-primary");
+        break;
+      case "reachable":
+        // Cells reachable from the source once the target proved unreachable
+        ctx.fillStyle = getVar("--color-base-100");
+        ctx.fillRect(x, y, 1, 1);
+        ctx.globalAlpha = 0.35;
+        ctx.fillStyle = getVar("--color-error");
+        break;
       case "source":
         ctx.fillStyle = getVar("--color-error");
         break;
@@ -102,13 +311,165 @@ export default function DijkstraGridDrawer({
         ctx.fillStyle = "#000";
     }
     ctx.fillRect(x, y, 1, 1);
+    ctx.globalAlpha = 1;
+
+    // Shade weighted terrain so it stays visible under search results
+    const weight = cellsRef.current[y]?.[x]?.weight ?? 1;
+    if (
+      weight > 1 &&
+      status !== "blocked" &&
+      status !== "source" &&
+      status !== "target"
+    ) {
+      ctx.globalAlpha = getTerrainShade(weight);
+      ctx.fillStyle = getVar("--color-base-content");
+      ctx.fillRect(x, y, 1, 1);
+      ctx.globalAlpha = 1;
+    }
+  }
+
+  // Paint the selected brush onto a cell: a wall, a passage or terrain
+  function paintCell(x: number, y: number): void {
+    const before = getEditedCell(x, y);
+    const cell = cellsRef.current[y][x];
+    if (drawingMode === "terrain") {
+      if (cell.status === "blocked") cell.status = "passage";
+      cell.weight = terrainWeight;
+    } else if (drawingMode === "blocked" || drawingMode === "passage") {
+      cell.status = drawingMode;
+      cell.weight = 1;
+    }
+    drawCell(x, y, cell.status);
+    recordEdit(x, y, before);
+  }
+
+  // Paint the brush onto every cell it covers when centered on the points
+  function paintBrush(points: Point[]): void {
+    for (const { x, y } of getBrushCells({ cols, rows }, points, brushSize)) {
+      paintCell(x, y);
+    }
+  }
+
+  // Paint the region of matching cells around a point, walls and passages
+  // with the same terrain alike, leaving the source and target out
+  function fillRegion(start: Point): void {
+    const { status, weight } = getEditedCell(start.x, start.y);
+    if (status === "source" || status === "target") return;
+    const region = getFloodFillCells({ cols, rows }, start, (x, y) => {
+      const cell = getEditedCell(x, y);
+      return cell.status === status && cell.weight === weight;
+    });
+    for (const { x, y } of region) paintCell(x, y);
+  }
+
+  function getShapeCells(from: Point, to: Point): Point[] {
+    const outline =
+      drawingTool === "rectangle"
+        ? getRectangleCells(from, to)
+        : getLineCells(from, to);
+    return getBrushCells({ cols, rows }, outline, brushSize);
+  }
+
+  // Show the cells a line or rectangle would paint, over the grid
+  function drawShapePreview(to: Point): void {
+    const from = shapeStartRef.current;
+    const ctx = canvasRef.current?.getContext("2d");
+    if (from == null || ctx == null) return;
+    clearShapePreview();
+
+    const cells = getShapeCells(from, to);
+    for (const { x, y } of cells) {
+      drawCell(x, y, drawingMode === "blocked" ? "blocked" : "passage");
+      if (drawingMode === "terrain") {
+        ctx.globalAlpha = getTerrainShade(terrainWeight);
+        ctx.fillStyle = getVar("--color-base-content");
+        ctx.fillRect(x, y, 1, 1);
+      }
+      ctx.globalAlpha = 0.35;
+      ctx.fillStyle = getVar("--color-accent");
+      ctx.fillRect(x, y, 1, 1);
+      ctx.globalAlpha = 1;
+    }
+    previewRef.current = cells;
+  }
+
+  function clearShapePreview(): void {
+    for (const { x, y } of previewRef.current) {
+      drawCell(x, y, cellsRef.current[y][x].status);
+    }
+    previewRef.current = [];
+  }
+
+  // A cell as the edit history keeps it, with search results as passages
+  function getEditedCell(x: number, y: number): Cell {
+    const { status, weight } = cellsRef.current[y][x];
+    return {
+      status: searchStatuses.includes(status) ? "passage" : status,
+      weight,
+    };
+  }
+
+  // Note the change of a cell in the edit being recorded
+  function recordEdit(x: number, y: number, before: Cell): void {
+    const after = getEditedCell(x, y);
+    if (before.status !== after.status || before.weight !== after.weight) {
+      historyRef.current.record(x, y, before, after);
+    }
+  }
+
+  // Cost of moving onto a cell
+  function getMoveCost(x: number, y: number): number {
+    return cellsRef.current[y][x].weight;
+  }
+
+  function isPassable(x: number, y: number): boolean {
+    return cellsRef.current[y][x].status !== "blocked";
+  }
+
+  // Change a cell on behalf of the search, recording it in the timeline
+  function setCellStatus(
+    x: number,
+    y: number,
+    status: CellStatus,
+    draw = true
+  ): void {
+    const cell = cellsRef.current[y][x];
+    timelineRef.current.record(x, y, cell.status, status);
+    cell.status = status;
+    if (draw) drawCell(x, y, status);
+  }
+
+  function updateSearchStatus(status: SearchStatus): void {
+    if (searchStatusRef.current === status) return;
+    searchStatusRef.current = status;
+    setSearchStatus(status);
+    onSearchStatusChange?.(status);
+  }
+
+  // End the run without a path and highlight the region the source can reach
+  function markTargetUnreachable(reachable: Point[]): void {
+    updateSearchStatus("unreachable");
+
+    for (const { x, y } of reachable) {
+      const { status } = cellsRef.current[y][x];
+      if (status !== "source" && status !== "target") {
+        setCellStatus(x, y, "reachable");
+      }
+    }
+  }
+
+  function isSearchFinished(): boolean {
+    return (
+      searchStatusRef.current === "found" ||
+      searchStatusRef.current === "unreachable"
+    );
   }
 
   function getCanvasPosition(x: number, y: number): Point | undefined {
     const canvas = canvasRef.current;
     if (canvas == null) return;
 
-    const rect = canvas.getBoundingClientRect();
+    const rect = getGridRect(canvas);
     const scaleX = canvas.width / rect.width;
     const scaleY = canvas.height / rect.height;
     const mouseX = x - rect.left;
@@ -131,7 +492,7 @@ export default function DijkstraGridDrawer({
 
     // Initialize grid
     const grid: Cell[][] = Array.from({ length: rows }, () =>
-      Array.from({ length: cols }, () => ({ status: "passage" }))
+      Array.from({ length: cols }, () => ({ status: "passage", weight: 1 }))
     );
     cellsRef.current = grid;
 
@@ -140,6 +501,15 @@ export default function DijkstraGridDrawer({
 
     // Clear maze on initial setup
     clearMaze();
+    historyRef.current.clear();
+    syncHistory();
+    const scenario = pendingScenarioRef.current;
+    if (scenario != null) {
+      pendingScenarioRef.current = null;
+      loadScenario(scenario);
+    } else if (race?.initialLayout != null) {
+      loadLayout(race.initialLayout);
+    }
 
     // Observe theme changes to re-draw cells
     const observer = new MutationObserver(() => {
@@ -154,15 +524,17 @@ export default function DijkstraGridDrawer({
     });
 
     return () => observer.disconnect();
-  }, []);
+  }, [rows, cols]);
 
   /* ==== CANVAS EVENT HANDLERS ==== */
   function handlePointerDown(
     event: React.PointerEvent<HTMLCanvasElement>
   ): void {
+    if (!canDraw) return;
     setIsDrawing(true);
     const point = getCanvasPosition(event.clientX, event.clientY);
     if (point == null) return;
+    historyRef.current.beginEdit();
 
     switch (drawingMode) {
       case "source":
@@ -171,14 +543,18 @@ export default function DijkstraGridDrawer({
         for (let y = 0; y < rows; y++) {
           for (let x = 0; x < cols; x++) {
             if (cellsRef.current[y][x].status === "source") {
+              const before = getEditedCell(x, y);
               cellsRef.current[y][x].status = "passage";
               drawCell(x, y, "passage");
+              recordEdit(x, y, before);
             }
           }
         }
         // Set new source
+        const sourceBefore = getEditedCell(point.x, point.y);
         cellsRef.current[point.y][point.x].status = "source";
         drawCell(point.x, point.y, "source");
+        recordEdit(point.x, point.y, sourceBefore);
         setSource({ x: point.x, y: point.y });
         break;
 
@@ -188,32 +564,50 @@ export default function DijkstraGridDrawer({
         for (let y = 0; y < rows; y++) {
           for (let x = 0; x < cols; x++) {
             if (cellsRef.current[y][x].status === "target") {
+              const before = getEditedCell(x, y);
               cellsRef.current[y][x].status = "passage";
               drawCell(x, y, "passage");
+              recordEdit(x, y, before);
             }
           }
         }
         // Set new target
+        const targetBefore = getEditedCell(point.x, point.y);
         cellsRef.current[point.y][point.x].status = "target";
         drawCell(point.x, point.y, "target");
+        recordEdit(point.x, point.y, targetBefore);
         setTarget({ x: point.x, y: point.y });
         break;
 
       case "blocked":
       case "passage":
-        cellsRef.current[point.y][point.x].status = drawingMode;
-        drawCell(point.x, point.y, drawingMode);
+      case "terrain":
+        if (drawingTool === "brush") {
+          paintBrush([point]);
+        } else if (drawingTool === "fill") {
+          fillRegion(point);
+        } else {
+          shapeStartRef.current = point;
+          drawShapePreview(point);
+        }
         lastPosRef.current = point;
         break;
     }
+
+    // Placing an endpoint is a whole edit, a stroke ends with the pointer
+    if (drawingMode === "source" || drawingMode === "target") {
+      endEdit();
+      race?.onLayoutChange?.(getLayout());
+    }
   }
 
   function handlePointerMove(
     event: React.PointerEvent<HTMLCanvasElement>
   ): void {
+    const point = getCanvasPosition(event.clientX, event.clientY);
+    inspectCell(event, point);
     if (!isDrawing) return;
 
-    const point = getCanvasPosition(event.clientX, event.clientY);
     const lastPoint = lastPosRef.current;
 
     if (
@@ -225,61 +619,292 @@ export default function DijkstraGridDrawer({
       return;
     }
 
-    // Bresenham's line algorithm for smooth drawing
-    let x0 = lastPoint.x;
-    let y0 = lastPoint.y;
-    const x1 = point.x;
-    const y1 = point.y;
+    if (drawingTool === "brush") {
+      // Paint along the line from the last point for smooth drawing
+      paintBrush(getLineCells(lastPoint, point));
+    } else if (drawingTool !== "fill") {
+      drawShapePreview(point);
+    }
+
+    lastPosRef.current = point;
+  }
+
+  function handlePointerUp(_p0: unknown): void {
+    setIsDrawing(false);
+    finishStroke();
+  }
+
+  function handlePointerLeave(_p0: unknown): void {
+    setIsDrawing(false);
+    setHoveredCell(null);
+    finishStroke();
+  }
 
-    const dx = Math.abs(x1 - x0);
-    const sx = x0 < x1 ? 1 : -1;
-    const dy = -Math.abs(y1 - y0);
-    const sy = y0 < y1 ? 1 : -1;
-    let error = dx + dy;
+  // A race starts over on the new walls once a stroke or shape ends
+  function finishStroke(): void {
+    const lastPoint = lastPosRef.current;
+    if (lastPoint == null) return;
+    lastPosRef.current = null;
 
-    while (true) {
-      if (isInBounds(x0, y0)) {
-        cellsRef.current[y0][x0].status = drawingMode;
-        drawCell(x0, y0, drawingMode);
+    // Lines and rectangles are painted once the pointer lets go
+    const shapeStart = shapeStartRef.current;
+    if (shapeStart != null) {
+      shapeStartRef.current = null;
+      clearShapePreview();
+      for (const { x, y } of getShapeCells(shapeStart, lastPoint)) {
+        paintCell(x, y);
       }
+    }
+    endEdit();
+    if (race == null) return;
+    clearDijkstraResults();
+    race.onLayoutChange?.(getLayout());
+  }
+
+  /* ==== EDIT HISTORY ==== */
+  function endEdit(): void {
+    historyRef.current.endEdit();
+    syncHistory();
+  }
+
+  function syncHistory(): void {
+    setCanUndo(historyRef.current.canUndo);
+    setCanRedo(historyRef.current.canRedo);
+  }
+
+  function undoEdit(): void {
+    applyHistory((apply) => historyRef.current.undo(apply));
+  }
+
+  function redoEdit(): void {
+    applyHistory((apply) => historyRef.current.redo(apply));
+  }
+
+  // Restore the cells of an undone or redone edit on a grid without results,
+  // then pick the source and target up from where they ended
+  function applyHistory(
+    move: (apply: (x: number, y: number, cell: Cell) => void) => boolean
+  ): void {
+    if (!canDraw || isDrawing) return;
+    clearDijkstraResults();
+    const moved = move((x, y, cell) => {
+      cellsRef.current[y][x] = { ...cell };
+      drawCell(x, y, cell.status);
+    });
+    syncHistory();
+    if (!moved) return;
 
-      if (x0 === x1 && y0 === y1) break;
+    const layout = getLayout();
+    setSource(layout.source);
+    setTarget(layout.target);
+    race?.onLayoutChange?.(layout);
+  }
 
-      const e2 = 2 * error;
-      if (e2 >= dy) {
-        if (x0 === x1) break;
-        error += dy;
-        x0 += sx;
+  // Clear the grid as one edit, so that it can be undone
+  function clearAll(): void {
+    const history = historyRef.current;
+    history.beginEdit();
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        const before = getEditedCell(x, y);
+        if (before.status !== "passage" || before.weight !== 1) {
+          history.record(x, y, before, { status: "passage", weight: 1 });
+        }
       }
-      if (e2 <= dx) {
-        if (y0 === y1) break;
-        error += dx;
-        y0 += sy;
+    }
+    clearMaze();
+    endEdit();
+  }
+
+  /* ==== GRID LAYOUT ==== */
+  function getLayout(): GridLayout {
+    let layoutSource: Point | null = null;
+    let layoutTarget: Point | null = null;
+    const costs: number[][] = [];
+    for (let y = 0; y < rows; y++) {
+      costs.push([]);
+      for (let x = 0; x < cols; x++) {
+        const { status, weight } = cellsRef.current[y][x];
+        if (status === "source") layoutSource = { x, y };
+        if (status === "target") layoutTarget = { x, y };
+        costs[y].push(status === "blocked" ? 0 : weight);
       }
     }
+    return { cols, rows, costs, source: layoutSource, target: layoutTarget };
+  }
 
-    lastPosRef.current = point;
+  function loadLayout(layout: GridLayout): void {
+    if (layout.cols !== cols || layout.rows !== rows) return;
+    clearDijkstraResults();
+
+    const cells = layout.costs.map((row) =>
+      row.map((cost): Cell =>
+        cost === 0
+          ? { status: "blocked", weight: 1 }
+          : { status: "passage", weight: cost }
+      )
+    );
+    if (layout.source != null) {
+      cells[layout.source.y][layout.source.x].status = "source";
+    }
+    if (layout.target != null) {
+      cells[layout.target.y][layout.target.x].status = "target";
+    }
+    cellsRef.current = cells;
+    cells.forEach((row, y) =>
+      row.forEach((cell, x) => drawCell(x, y, cell.status))
+    );
+    setSource(layout.source);
+    setTarget(layout.target);
+    historyRef.current.clear();
+    syncHistory();
   }
 
-  function handlePointerUp(_p0: unknown): void {
-    setIsDrawing(false);
-    lastPosRef.current = null;
+  // Cells the overlays draw, including the source the search started from
+  function isSearchedCell(x: number, y: number): boolean {
+    const { status } = cellsRef.current[y][x];
+    return (
+      searchStatuses.includes(status) ||
+      status === "source" ||
+      status === "target"
+    );
   }
 
-  function handlePointerLeave(_p0: unknown): void {
-    setIsDrawing(false);
+  /* ==== SCENARIO FILES ==== */
+  function getScenario(): Scenario {
+    return {
+      ...getLayout(),
+      settings: { algorithm, heuristic, heuristicWeight, movement },
+    };
   }
 
-  /* ==== DIJKSTRA ALGORITHM LOGIC ==== */
-  function dijkstraInitialization(): void {
-    if (visitedRef.current != null) {
-      visitedRef.current.forEach((row, y) => {
-        row.forEach((_, x) => {
-          if (visitedRef.current != null) visitedRef.current[y][x] = false;
-        });
-      });
+  function getSharedSetup(): SharedSetup {
+    return { ...getScenario(), mazeSeed: null };
+  }
+
+  // Loads a scenario from a file or link, returning why it does not fit
+  function loadScenario(scenario: Scenario): string | null {
+    if (scenario.cols !== cols || scenario.rows !== rows) {
+      if (onResize == null) {
+        return `The scenario is ${scenario.cols}×${scenario.rows}, this grid is ${cols}×${rows}.`;
+      }
+      pendingScenarioRef.current = scenario;
+      onResize({ cols: scenario.cols, rows: scenario.rows });
+      return null;
+    }
+
+    loadLayout(scenario);
+    const { settings } = scenario;
+    if (settings.algorithm != null) setAlgorithm(settings.algorithm);
+    if (settings.movement != null) setMovement(settings.movement);
+    if (settings.heuristic != null) setHeuristic(settings.heuristic);
+    if (settings.heuristicWeight != null) {
+      setHeuristicWeight(settings.heuristicWeight);
+    }
+    return null;
+  }
+
+  // Resize the grid, keeping the walls, terrain and endpoints that still fit
+  function resizeGrid(size: GridSize): void {
+    if (onResize == null) return;
+    const scenario = getScenario();
+    pendingScenarioRef.current = {
+      ...scenario,
+      ...resizeLayout(scenario, size),
+    };
+    onResize(size);
+  }
+
+  async function loadScenarioFile(file: File): Promise<void> {
+    const result = await readScenarioFile(file);
+    setScenarioError(result.ok ? loadScenario(result.scenario) : result.error);
+  }
+
+  function loadSharedSetup(encoded: string): void {
+    const result = decodeSharedSetup(encoded);
+    if (!result.ok) {
+      setScenarioError(result.error);
+      return;
     }
+    const { setup } = result;
+    setScenarioError(
+      setup.costs == null
+        ? "The link is for a generated maze, open it on its maze page."
+        : loadScenario({ ...setup, costs: setup.costs })
+    );
+  }
+
+  /* ==== MOVING AI BENCHMARKS ==== */
+  function loadBenchmarkMap(layout: GridLayout): string | null {
+    return loadScenario({
+      ...layout,
+      settings: { movement: movingAiMovement },
+    });
+  }
 
+  function placeBenchmarkProblem(problem: MovingAiProblem): string | null {
+    if (problem.cols !== cols || problem.rows !== rows) {
+      return `The problem is for a ${problem.cols}×${problem.rows} map, this grid is ${cols}×${rows}.`;
+    }
+    const { start, goal } = problem;
+    const walled = [start, goal].find(({ x, y }) => !isPassable(x, y));
+    if (walled != null) {
+      return `The cell (${walled.x}, ${walled.y}) of the problem is a wall.`;
+    }
+    loadLayout({ ...getLayout(), source: start, target: goal });
+    setMovement(movingAiMovement);
+    return null;
+  }
+
+  /* ==== CELL INSPECTOR ==== */
+  function inspectCell(
+    event: React.PointerEvent<HTMLCanvasElement>,
+    point: Point | undefined
+  ): void {
+    const container = containerRef.current;
+    if (container == null || point == null || !isInBounds(point.x, point.y)) {
+      setHoveredCell(null);
+      return;
+    }
+    setHoveredCell(
+      getHoveredCell(container, point, event.clientX, event.clientY)
+    );
+  }
+
+  // What the search knows about a cell, in the order the inspector lists it
+  function getInspectorDetails({ x, y }: Point): InspectorDetail[] {
+    const details: InspectorDetail[] = [];
+    const { weight } = cellsRef.current[y][x];
+    if (weight !== 1) details.push({ label: "Cost", value: weight });
+
+    const search = searchRef.current;
+    if (search == null) return details;
+    const { forward, reverse } = search;
+    const suffix = reverse != null ? " (forward)" : "";
+    details.push(
+      { label: `Distance${suffix}`, value: forward.distances[y][x] },
+      { label: `Predecessor${suffix}`, value: forward.predecessors[y][x] }
+    );
+    if (reverse != null) {
+      details.push(
+        { label: "Distance (reverse)", value: reverse.distances[y][x] },
+        { label: "Predecessor (reverse)", value: reverse.predecessors[y][x] }
+      );
+    }
+
+    const costs = search.getCosts(x, y);
+    if (costs != null) {
+      details.push(
+        { label: "g", value: costs.g },
+        { label: "h", value: costs.h },
+        { label: "f", value: costs.f }
+      );
+    }
+    return details;
+  }
+
+  /* ==== DIJKSTRA ALGORITHM LOGIC ==== */
+  function dijkstraInitialization(): void {
     // Redraw the grid
     cellsRef.current.forEach((row, y) =>
       row.forEach((cell, x) => drawCell(x, y, cell.status))
@@ -288,146 +913,227 @@ export default function DijkstraGridDrawer({
     // Early return if source or target is not set
     if (source == null || target == null) return;
 
-    // Initialize algorithm structures
-    const distances = Array(rows)
-      .fill(null)
-      .map(() => Array(cols).fill(Number.POSITIVE_INFINITY));
+    expandedCountRef.current = 0;
+    setExpandedCount(0);
+    updateSearchStatus("idle");
+    runTimeRef.current = 0;
+    runPathRef.current = null;
+    timelineRef.current.clear();
+    setSearchPhases([]);
+    syncTimeline();
+
+    // The search reads the cells as they are drawn, walls added mid-run count
+    const grid = createGrid({ cols, rows }, isPassable, getMoveCost);
+    const search = createSearch(grid, source, target, {
+      algorithm,
+      movement,
+      heuristic,
+      heuristicWeight,
+    });
+    searchRef.current = search;
+    searchRunnerRef.current = createAlgorithmRunner(search.steps);
+    searchRunnerRef.current.subscribe(handleSearchEvent);
+  }
 
-    const visited = Array(rows)
-      .fill(null)
-      .map(() => Array(cols).fill(false));
+  function dijkstraOneStep(): void {
+    if (source == null || target == null) return;
+
+    // Replay recorded steps before running the search any further
+    const timeline = timelineRef.current;
+    if (timeline.position < timeline.length) {
+      seekSearch(timeline.position + 1);
+      return;
+    }
 
-    const predecessors = Array(rows)
-      .fill(null)
-      .map(() => Array(cols).fill(null));
+    // Nothing left to explore once the search has finished
+    if (isSearchFinished()) return;
+    if (searchRunnerRef.current == null) dijkstraInitialization();
+    if (searchStatusRef.current === "idle") updateSearchStatus("running");
+
+    timeline.beginStep();
+    phasesRef.current = [];
+    const startTime = performance.now();
+    searchRunnerRef.current?.step();
+    runTimeRef.current += performance.now() - startTime;
+    timeline.endStep({
+      status: searchStatusRef.current,
+      expandedCount: expandedCountRef.current,
+      phases: phasesRef.current,
+      queueSizes: getQueueSizes(),
+    });
+    if (isSearchFinished()) recordRun();
 
-    // Set source distance to zero
-    distances[source.y][source.x] = 0;
-    predecessors[source.y][source.x] = source;
+    setExpandedCount(expandedCountRef.current);
+    setSearchPhases(timeline.current?.phases ?? []);
+    syncTimeline();
+  }
 
-    // Update refs
-    visitedRef.current = visited;
-    predecessorsRef.current = predecessors;
-    distancesRef.current = distances;
+  // Restore the grid and the counters as they were after `position` steps
+  function seekSearch(position: number): void {
+    const timeline = timelineRef.current;
+    shortestPathAnimatingRef.current = false;
+    timeline.seek(position, (x, y, expected, next) => {
+      const cell = cellsRef.current[y][x];
+      // Leave cells alone that were edited after the step was recorded
+      if (cell.status !== expected) return;
+      cell.status = next;
+      drawCell(x, y, next);
+    });
 
-    // Initialize queue with source node
-    dijkstraQueueRef.current = [{ x: source.x, y: source.y, dist: 0 }];
+    const snapshot = timeline.current;
+    expandedCountRef.current = snapshot?.expandedCount ?? 0;
+    setExpandedCount(expandedCountRef.current);
+    setPathFound(snapshot?.status === "found");
+    setSearchPhases(snapshot?.phases ?? []);
+    updateSearchStatus(snapshot?.status ?? "idle");
+    syncTimeline();
   }
-  function dijkstraOneStep(): void {
-    if (source == null || target == null) return;
 
-    const distances = distancesRef.current;
-    const visited = visitedRef.current;
-    const predecessors = predecessorsRef.current;
-    const cells = cellsRef.current;
-    const queue = dijkstraQueueRef.current;
+  function getQueueSizes(): number[] {
+    const search = searchRef.current;
+    if (search == null) return [];
+    return [search.forward, search.reverse].flatMap((frontier) =>
+      frontier != null ? [frontier.queue.size] : []
+    );
+  }
 
-    const { x: targetX, y: targetY } = target;
+  function getQueueSizeHistory(frontierIndex: number): number[] {
+    return timelineRef.current
+      .getAppliedData()
+      .map(({ queueSizes }) => queueSizes[frontierIndex]);
+  }
 
-    // If target is already visited, animate the path
-    if (target != null && visitedRef.current[target.y][target.x]) {
-      animateShortestPath(source, target, predecessorsRef.current);
-      return;
+  // The first queued cells in the order they are popped
+  function getQueueEntries(
+    { queue }: SearchFrontier,
+    count: number
+  ): QueueEntry[] {
+    return queue
+      .peekSmallest(count)
+      .map(({ x, y, dist }) => ({ x, y, value: dist }));
+  }
+
+  function recordRun(): void {
+    if (source == null || target == null) return;
+    const grid = createGrid({ cols, rows }, isPassable, getMoveCost);
+    const gridKey = getGridKey(grid, source, target);
+    // Both frontiers of a bidirectional search count towards its frontier
+    let peakFrontier = 0;
+    for (const { queueSizes } of timelineRef.current.getAppliedData()) {
+      const size = queueSizes.reduce((a, b) => a + b, 0);
+      peakFrontier = Math.max(peakFrontier, size);
     }
+    const path = runPathRef.current;
+    const run: RunStats = {
+      algorithm: algorithmLabels[algorithm],
+      gridKey,
+      gridLabel: `${cols}×${rows} #${gridKey}`,
+      expanded: expandedCountRef.current,
+      peakFrontier,
+      pathLength: path?.length ?? null,
+      pathCost: path?.cost ?? null,
+      timeMs: runTimeRef.current,
+      steps: timelineRef.current.length,
+    };
+    setRuns((runs) => [...runs, run]);
+  }
 
-    // Cardinal directions: left, right, up, down
-    const directions = [
-      { dx: -1, dy: 0 },
-      { dx: 1, dy: 0 },
-      { dx: 0, dy: -1 },
-      { dx: 0, dy: 1 },
-    ];
-
-    // Process exactly one node when manually stepping
-    // or a chunk of cells when auto-running based on the chunk size
-    const maxSteps = dijkstraRunningRef.current
-      ? dijkstraChunkSizeRef.current
-      : 1;
-    let count = 0;
-    while (count++ < maxSteps && queue.length > 0) {
-      // Sort queue by distance (simulating a min-heap)
-      queue.sort((a, b) => a.dist - b.dist);
-
-      // Get the node with smallest distance
-      const current = queue.shift();
-      if (current === undefined) break;
-
-      const { x, y } = current;
-
-      // Skip if already visited
-      if (visited[y][x]) continue;
-
-      // Mark as visited
-      visited[y][x] = true;
-
-      // Update visualization (except for source/target)
-      if (cells[y][x].status !== "source" && cells[y][x].status !== "target") {
-        cells[y][x].status = "visited";
-        drawCell(x, y, "visited");
-      }
+  function syncTimeline(): void {
+    setTimelinePosition(timelineRef.current.position);
+    setTimelineLength(timelineRef.current.length);
+  }
 
-      // Explore neighbors
-      for (const { dx, dy } of directions) {
-        const nx = x + dx;
-        const ny = y + dy;
-
-        // Check if neighbor is valid and not visited
-        if (
-          isInBounds(nx, ny) &&
-          !visited[ny][nx] &&
-          (cells[ny][nx].status === "passage" ||
-            cells[ny][nx].status === "target")
+  // Paint what the search did onto the grid
+  function handleSearchEvent(event: AlgorithmEvent): void {
+    const cells = cellsRef.current;
+
+    switch (event.type) {
+      case "phase":
+        phasesRef.current.push(event.phase);
+        break;
+
+      case "visit": {
+        expandedCountRef.current++;
+        const { status } = cells[event.y][event.x];
+        // Cells reached by the other frontier keep their color
+        if (event.direction === "reverse") {
+          if (status === "passage") {
+            setCellStatus(event.x, event.y, "visitedReverse");
+          }
+        } else if (
+          status !== "source" &&
+          status !== "target" &&
+          status !== "visitedReverse"
         ) {
-          const newDist = distances[y][x] + 1;
+          setCellStatus(event.x, event.y, "visited");
+        }
+        break;
+      }
 
-          // Update distances if we found a better path
-          if (newDist < distances[ny][nx]) {
-            distances[ny][nx] = newDist;
-            predecessors[ny][nx] = { x, y };
-            queue.push({ x: nx, y: ny, dist: newDist });
+      case "jump": {
+        // Highlight the jump, the jump point and its forced neighbors
+        const { from, to } = event;
+        for (const { x, y } of getJumpLine(from, to)) {
+          if (cells[y][x].status === "passage") {
+            setCellStatus(x, y, "jump");
+          }
+        }
+        if (cells[to.y][to.x].status === "jump") {
+          setCellStatus(to.x, to.y, "jumpPoint");
+        }
+        for (const { x, y } of to.forcedNeighbors) {
+          const status = cells[y][x].status;
+          if (status === "passage" || status === "jump") {
+            setCellStatus(x, y, "forcedNeighbor");
           }
         }
+        break;
       }
 
-      // Break early if we found the target
-      if (visited[targetY][targetX]) break;
-    }
+      case "path": {
+        // Mark where the two frontiers of a bidirectional search met
+        const meetingPoint = event.meetingPoint;
+        if (meetingPoint != null) {
+          const { status } = cells[meetingPoint.y][meetingPoint.x];
+          if (status !== "source" && status !== "target") {
+            setCellStatus(meetingPoint.x, meetingPoint.y, "meetingPoint");
+          }
+        }
+        animatePath(event.path, event.cost);
+        break;
+      }
 
-    // If we found the target, animate the path
-    if (visited[targetY][targetX]) {
-      animateShortestPath(source, target, predecessorsRef.current);
+      case "unreachable":
+        markTargetUnreachable(event.reachable);
+        break;
     }
   }
 
-  function animateShortestPath(
-    source: Point,
-    target: Point,
-    predecessors: Point[][]
-  ): void {
-    const path: Point[] = [];
-    let current: Point | null = target;
-
-    while (current != null) {
-      path.push(current);
-      if (current.x === source.x && current.y === source.y) break;
-      current = predecessors[current.y][current.x];
-    }
-
-    // Update path found status and length
+  /* ==== PATH ANIMATION ==== */
+  function animatePath(path: Point[], cost: number): void {
+    runPathRef.current = { length: path.length - 1, cost };
+    // Update path found status, length and cost
     setPathFound(true);
     setPathLength(path.length - 2); // Subtract source and target nodes
+    setPathCost(cost);
+    updateSearchStatus("found");
+
+    // The cells change within the step, only drawing them is animated
+    const pathCells = path
+      .slice(1, -1)
+      .filter(({ x, y }) => cellsRef.current[y][x].status !== "meetingPoint");
+    pathCells.forEach(({ x, y }) => setCellStatus(x, y, "shortestPath", false));
 
-    let i = 1;
+    let i = 0;
     shortestPathAnimatingRef.current = true;
     function step(): void {
       if (!shortestPathAnimatingRef.current) return;
-      if (i >= path.length - 1) {
+      if (i >= pathCells.length) {
         shortestPathAnimatingRef.current = false;
         return;
       }
-      const { x, y } = path[i++];
-      cellsRef.current[y][x].status = "shortestPath";
-      drawCell(x, y, "shortestPath");
+      const { x, y } = pathCells[i++];
+      drawCell(x, y, cellsRef.current[y][x].status);
 
       requestAnimationFrame(step);
     }
@@ -437,56 +1143,65 @@ export default function DijkstraGridDrawer({
 
   /* ==== DIJKSTRA CONTROL FUNCTIONS ==== */
   function dijkstraPlay(): void {
-    if (!dijkstraPaused) {
+    // Replay from the current step after seeking back, otherwise start over
+    const timeline = timelineRef.current;
+    if (!dijkstraPaused && timeline.position === timeline.length) {
       clearDijkstraResults();
       dijkstraInitialization();
     }
 
-    if (dijkstraRunningRef.current) return;
+    if (schedulerRef.current.running) return;
 
-    dijkstraRunningRef.current = true;
     setDijkstraRunning(true);
     setDijkstraPaused(false);
-    setDijkstraChunkSize((cols + rows) / 16);
 
-    dijkstraStepLoop();
+    schedulerRef.current.start({
+      step() {
+        dijkstraOneStep();
+        // Finished once the target is visited or the frontiers met
+        return !isSearchFinished();
+      },
+      onFinish: () => setDijkstraRunning(false),
+    });
+  }
+
+  // Runs the search again from its first step, for recording
+  function restartSearch(): void {
+    clearDijkstraResults();
+    dijkstraInitialization();
+    dijkstraPlay();
   }
 
   function dijkstraStop(): void {
-    dijkstraRunningRef.current = false;
+    schedulerRef.current.stop();
     setDijkstraRunning(false);
     setDijkstraPaused(true);
-    setDijkstraChunkSize(1);
   }
 
-  function dijkstraStepLoop(): void {
-    if (!dijkstraRunningRef.current) return;
-
-    dijkstraOneStep();
-
-    // Check if finished (target visited)
-    if (target != null && visitedRef.current[target.y][target.x]) {
-      dijkstraRunningRef.current = false;
-      setDijkstraRunning(false);
-      return;
-    }
-
-    requestAnimationFrame(dijkstraStepLoop);
+  function handleSpeedChange(stepsPerSecond: number): void {
+    setSpeed(stepsPerSecond);
+    schedulerRef.current.setSpeed(stepsPerSecond);
   }
 
   /* ==== GRID MANAGEMENT FUNCTIONS ==== */
   function clearMaze(): void {
     // Reset state
+    schedulerRef.current.stop();
+    setDijkstraRunning(false);
     setSource(null);
     setTarget(null);
     setDrawingMode("blocked");
     setIsDrawing(false);
     setPathFound(false);
     setPathLength(0);
+    setPathCost(0);
+    expandedCountRef.current = 0;
+    setExpandedCount(0);
+    updateSearchStatus("idle");
     shortestPathAnimatingRef.current = false;
     cellsRef.current.forEach((row, y) => {
       row.forEach((cell, x) => {
-        if (cell.status === "visited" || cell.status === "shortestPath") {
+        if (searchStatuses.includes(cell.status)) {
           cell.status = "passage";
           drawCell(x, y, "passage");
         }
@@ -494,22 +1209,16 @@ export default function DijkstraGridDrawer({
     });
     // Initialize blank grid
     const blankGrid: Cell[][] = Array.from({ length: rows }, () =>
-      Array.from({ length: cols }, () => ({ status: "passage" }))
+      Array.from({ length: cols }, () => ({ status: "passage", weight: 1 }))
     );
     cellsRef.current = blankGrid;
 
-    // Reset algorithm data structures
-    distancesRef.current = Array(rows)
-      .fill(null)
-      .map(() => Array(cols).fill(Number.POSITIVE_INFINITY));
-
-    visitedRef.current = Array(rows)
-      .fill(null)
-      .map(() => Array(cols).fill(false));
-
-    predecessorsRef.current = Array(rows)
-      .fill(null)
-      .map(() => Array(cols).fill({ x: -1, y: -1 }));
+    // Drop the previous search
+    searchRef.current = null;
+    searchRunnerRef.current = null;
+    timelineRef.current.clear();
+    setSearchPhases([]);
+    syncTimeline();
 
     // Redraw grid
     blankGrid.forEach((row, y) =>
@@ -519,17 +1228,21 @@ export default function DijkstraGridDrawer({
 
   function clearDijkstraResults(): void {
     // Reset algorithm state
-    dijkstraRunningRef.current = false;
+    schedulerRef.current.stop();
     setDijkstraRunning(false);
     setDijkstraPaused(false);
     shortestPathAnimatingRef.current = false;
     setPathFound(false);
     setPathLength(0);
+    setPathCost(0);
+    expandedCountRef.current = 0;
+    setExpandedCount(0);
+    updateSearchStatus("idle");
 
     // Clear visualization
     cellsRef.current.forEach((row, y) => {
       row.forEach((cell, x) => {
-        if (cell.status === "visited" || cell.status === "shortestPath") {
+        if (searchStatuses.includes(cell.status)) {
           cell.status = "passage";
           drawCell(x, y, "passage");
         }
@@ -547,54 +1260,42 @@ export default function DijkstraGridDrawer({
       drawCell(target.x, target.y, "target");
     }
 
-    // Reset algorithm data structures
-    visitedRef.current = Array(rows)
-      .fill(null)
-      .map(() => Array(cols).fill(false));
-    distancesRef.current = Array(rows)
-      .fill(null)
-      .map(() => Array(cols).fill(Number.POSITIVE_INFINITY));
-    predecessorsRef.current = Array(rows)
-      .fill(null)
-      .map(() => Array(cols).fill(null));
-
-    // Re-initialize the algorithm after clearing
-    if (source != null && target != null) {
-      // Set source distance to zero
-      if (source) {
-        distancesRef.current[source.y][source.x] = 0;
-      }
-
-      // Re-initialize queue with source node
-      dijkstraQueueRef.current = source
-        ? [{ x: source.x, y: source.y, dist: 0 }]
-        : [];
-    } else {
-      dijkstraQueueRef.current = [];
-    }
+    // The next step starts a new search with the current settings
+    searchRef.current = null;
+    searchRunnerRef.current = null;
+    timelineRef.current.clear();
+    setSearchPhases([]);
+    syncTimeline();
   }
 
   /* ==== HTML OVERLAY POSITIONING ==== */
   function setHTMLOverlayToCanvas(point: Point, element: HTMLElement): void {
     const canvas = canvasRef.current;
-    if (canvas == null) return;
-    const container = canvas.parentElement;
-    if (container == null) return;
-    const canvasRect = canvas.getBoundingClientRect();
-    const cellW = canvasRect.width / cols;
-    const cellH = canvasRect.height / rows;
-    const left = Math.round(point.x * cellW + cellW / 2);
-    const top = Math.round(point.y * cellH);
+    const container = containerRef.current;
+    if (canvas == null || container == null) return;
+    const gridRect = getGridRect(canvas);
+    const containerRect = container.getBoundingClientRect();
+    const cellW = gridRect.width / cols;
+    const cellH = gridRect.height / rows;
+    const left = Math.round(
+      gridRect.left - containerRect.left + point.x * cellW + cellW / 2
+    );
+    const top = Math.round(gridRect.top - containerRect.top + point.y * cellH);
 
     element.style.left = `${left}px`;
     element.style.top = `${top}px`;
+    // Hide the tooltip while its cell is zoomed out of view
+    const inView =
+      left >= 0 &&
+      top >= 0 &&
+      left <= containerRect.width &&
+      top <= containerRect.height;
+    element.style.visibility = inView ? "" : "hidden";
   }
 
   /* ==== EFFECTS ==== */
-  // Update chunk size ref when the state changes
-  useEffect(() => {
-    dijkstraChunkSizeRef.current = dijkstraChunkSize;
-  }, [dijkstraChunkSize]);
+  // Stop stepping once the grid is gone
+  useEffect(() => () => schedulerRef.current.stop(), []);
 
   // Initialize Dijkstra when source or target changes
   useEffect(() => {
@@ -603,6 +1304,40 @@ export default function DijkstraGridDrawer({
     }
   }, [source, target]);
 
+  // Restart from a clean grid when the search settings change
+  useEffect(() => {
+    clearDijkstraResults();
+  }, [algorithm, heuristic, heuristicWeight, movement]);
+
+  // Restore the setup of an opened link, after the blank grid is drawn
+  useEffect(() => {
+    if (sharedSetup != null && race == null) loadSharedSetup(sharedSetup);
+  }, [sharedSetup]);
+
+  // Undo with Ctrl+Z and redo with Ctrl+Shift+Z or Ctrl+Y, outside of inputs
+  historyActionsRef.current = { undoEdit, redoEdit };
+  useEffect(() => {
+    if (!canDraw) return;
+
+    function handleKeyDown(event: KeyboardEvent): void {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const element = event.target as HTMLElement | null;
+      if (element?.closest("input, textarea, select") != null) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        historyActionsRef.current.undoEdit();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        historyActionsRef.current.redoEdit();
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [canDraw]);
+
   // Handle window resizing
   useEffect(() => {
     function handleResize(): void {
@@ -618,175 +1353,433 @@ export default function DijkstraGridDrawer({
 
   // Position source node tooltip
   useEffect(() => {
-    if (source == null) return;
-
-    const sourceElement = document.querySelector(".dijkstra-source-node");
-    if (sourceElement instanceof HTMLElement) {
-      setHTMLOverlayToCanvas(source, sourceElement);
-    }
-  }, [dimensions, source]);
+    if (source == null || sourceTooltipRef.current == null) return;
+    setHTMLOverlayToCanvas(source, sourceTooltipRef.current);
+  }, [dimensions, source, view]);
 
   // Position target node tooltip
   useEffect(() => {
-    if (target == null) return;
-
-    const targetElement = document.querySelector(".dijkstra-target-node");
-    if (targetElement instanceof HTMLElement) {
-      setHTMLOverlayToCanvas(target, targetElement);
-    }
-  }, [dimensions, target]);
+    if (target == null || targetTooltipRef.current == null) return;
+    setHTMLOverlayToCanvas(target, targetTooltipRef.current);
+  }, [dimensions, target, view]);
+
+  useImperativeHandle(ref, () => ({
+    loadLayout,
+    step() {
+      dijkstraOneStep();
+      return isSearchFinished();
+    },
+    clearResults: clearDijkstraResults,
+  }));
+
+  // The search whose queues are shown, if one has started, and the reverse
+  // frontier of a bidirectional search
+  const search = searchRef.current;
+  const reverse = search?.reverse;
 
   return (
     <>
       <div>
         <div className="flex flex-col items-center">
           <div className="mb-2 flex w-full flex-col justify-center gap-2">
-            {/* Algorithm control buttons */}
-            <div className="join join-horizontal flex justify-center">
-              <button
-                className="join-item btn btn-primary"
-                disabled={source == null || target == null}
-                onMouseDown={() => dijkstraOneStep()}
-                title="Run a single step of Dijkstra's algorithm"
-              >
-                One Step Dijkstra
-              </button>
-              <button
-                className="join-item btn btn-primary w-32"
-                disabled={source == null || target == null}
-                onClick={dijkstraRunning ? dijkstraStop : dijkstraPlay}
-                title={
-                  dijkstraRunning
-                    ? "Stop the algorithm"
-                    : "Run Dijkstra's algorithm automatically"
+            {race == null && (
+              <>
+                {/* Algorithm control buttons */}
+                <div className="join join-horizontal flex justify-center">
+                  <button
+                    className="join-item btn btn-primary"
+                    disabled={source == null || target == null}
+                    onMouseDown={() => dijkstraOneStep()}
+                    title={`Run a single step of ${algorithmLabels[algorithm]}`}
+                  >
+                    One Step {algorithmLabels[algorithm]}
+                  </button>
+                  <button
+                    className="join-item btn btn-primary w-32"
+                    disabled={source == null || target == null}
+                    onClick={dijkstraRunning ? dijkstraStop : dijkstraPlay}
+                    title={
+                      dijkstraRunning
+                        ? "Stop the algorithm"
+                        : `Run ${algorithmLabels[algorithm]} automatically`
+                    }
+                  >
+                    {dijkstraRunning
+                      ? `Stop ${algorithmLabels[algorithm]}`
+                      : `Play ${algorithmLabels[algorithm]}`}
+                  </button>
+                </div>
+                <div className="flex justify-center">
+                  <SpeedControl
+                    stepsPerSecond={speed}
+                    onChange={handleSpeedChange}
+                  />
+                </div>
+                {/* Timeline of the recorded steps */}
+                <div className="flex justify-center">
+                  <TimelineSlider
+                    label={algorithmLabels[algorithm]}
+                    position={timelinePosition}
+                    length={timelineLength}
+                    disabled={dijkstraRunning}
+                    onSeek={seekSearch}
+                  />
+                </div>
+                <OverlayToggles
+                  heatmap={showHeatmap}
+                  tree={showTree}
+                  onHeatmapChange={setShowHeatmap}
+                  onTreeChange={setShowTree}
+                />
+              </>
+            )}
+            {/* Search settings */}
+            <div className="flex flex-wrap items-center justify-center gap-2">
+              <select
+                className="select select-primary select-sm w-44"
+                value={algorithm}
+                disabled={settingsLocked}
+                onChange={(e) =>
+                  setAlgorithm(e.target.value as SearchAlgorithm)
                 }
+                title="Search algorithm"
               >
-                {dijkstraRunning ? "Stop Dijkstra" : "Play Dijkstra"}
-              </button>
-            </div>
-            {/* Drawing mode buttons */}
-            <div className="join join-horizontal flex justify-center">
-              <button
-                className="join-item btn btn-primary"
-                onClick={() => setDrawingMode("blocked")}
+                {Object.entries(algorithmLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="select select-primary select-sm w-36"
+                value={heuristic}
+                disabled={
+                  settingsLocked || !informedAlgorithms.includes(algorithm)
+                }
+                onChange={(e) => setHeuristic(e.target.value as HeuristicName)}
+                title="Heuristic used to estimate the remaining distance"
               >
-                Wall
-                <svg viewBox="0 0 1 1" className="ml-2 size-3">
-                  <rect
-                    x="0"
-                    y="0"
-                    width="1"
-                    height="1"
-                    fill={getVar("--color-base-200")}
-                    fillOpacity={drawingMode === "blocked" ? 1 : 0.25}
-                  />
-                </svg>
-              </button>
-              <button
-                className="join-item btn btn-primary"
-                onClick={() => setDrawingMode("passage")}
+                {Object.entries(heuristicLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <MovementSelect
+                movement={movement}
+                disabled={settingsLocked}
+                onChange={(movement) => {
+                  setMovement(movement);
+                  // Keep the default heuristic admissible for the new moves
+                  setHeuristic(
+                    movement.model === "octile" ? "octile" : "manhattan"
+                  );
+                }}
+              />
+              <label
+                className="flex items-center gap-2 text-sm font-semibold"
+                title="Weights above 1 trade optimality for fewer expanded cells"
               >
-                Erase
-                <svg viewBox="0 0 1 1" className="ml-2 size-3">
-                  <rect
-                    x="0"
-                    y="0"
-                    width="1"
-                    height="1"
-                    fill={getVar("--color-base-100")}
-                    fillOpacity={drawingMode === "passage" ? 1 : 0.25}
-                  />
-                </svg>
-              </button>
-              <button
-                className="join-item btn btn-primary"
-                onClick={() => setDrawingMode("source")}
+                Weight
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  step={0.5}
+                  value={heuristicWeight}
+                  disabled={settingsLocked || algorithm !== "astar"}
+                  className="input input-primary input-sm w-20"
+                  onChange={(e) =>
+                    setHeuristicWeight(Math.max(1, Number(e.target.value) || 1))
+                  }
+                />
+              </label>
+            </div>
+            {canDraw && (
+              <>
+                {/* Drawing mode buttons */}
+                <div className="join join-horizontal flex justify-center">
+                  <button
+                    className="join-item btn btn-primary"
+                    onClick={() => setDrawingMode("blocked")}
+                  >
+                    Wall
+                    <svg viewBox="0 0 1 1" className="ml-2 size-3">
+                      <rect
+                        x="0"
+                        y="0"
+                        width="1"
+                        height="1"
+                        fill={getVar("--color-base-200")}
+                        fillOpacity={drawingMode === "blocked" ? 1 : 0.25}
+                      />
+                    </svg>
+                  </button>
+                  <button
+                    className="join-item btn btn-primary"
+                    onClick={() => setDrawingMode("passage")}
+                  >
+                    Erase
+                    <svg viewBox="0 0 1 1" className="ml-2 size-3">
+                      <rect
+                        x="0"
+                        y="0"
+                        width="1"
+                        height="1"
+                        fill={getVar("--color-base-100")}
+                        fillOpacity={drawingMode === "passage" ? 1 : 0.25}
+                      />
+                    </svg>
+                  </button>
+                  <button
+                    className="join-item btn btn-primary"
+                    onClick={() => setDrawingMode("terrain")}
+                    title="Paint weighted terrain that costs more to cross"
+                  >
+                    Terrain
+                    <svg viewBox="0 0 1 1" className="ml-2 size-3">
+                      <rect
+                        x="0"
+                        y="0"
+                        width="1"
+                        height="1"
+                        fill={getVar("--color-base-content")}
+                        fillOpacity={
+                          drawingMode === "terrain"
+                            ? getTerrainShade(terrainWeight)
+                            : 0.1
+                        }
+                      />
+                    </svg>
+                  </button>
+                  <button
+                    className="join-item btn btn-primary"
+                    onClick={() => setDrawingMode("source")}
+                  >
+                    Source
+                    <svg viewBox="0 0 1 1" className="ml-2 size-3">
+                      <rect
+                        x="0"
+                        y="0"
+                        width="1"
+                        height="1"
+                        fill={getVar("--color-error")}
+                        fillOpacity={drawingMode === "source" ? 1 : 0.25}
+                      />
+                    </svg>
+                  </button>
+                  <button
+                    className="join-item btn btn-primary"
+                    onClick={() => setDrawingMode("target")}
+                  >
+                    Target
+                    <svg viewBox="0 0 1 1" className="ml-2 size-3">
+                      <rect
+                        x="0"
+                        y="0"
+                        width="1"
+                        height="1"
+                        fill={getVar("--color-success")}
+                        fillOpacity={drawingMode === "target" ? 1 : 0.25}
+                      />
+                    </svg>
+                  </button>
+                </div>
+                {/* Edit history buttons */}
+                <div className="join join-horizontal flex justify-center">
+                  <button
+                    className="join-item btn btn-primary btn-sm"
+                    disabled={!canUndo}
+                    onClick={undoEdit}
+                    title="Undo the last stroke or endpoint move (Ctrl+Z)"
+                  >
+                    Undo
+                  </button>
+                  <button
+                    className="join-item btn btn-primary btn-sm"
+                    disabled={!canRedo}
+                    onClick={redoEdit}
+                    title="Redo the last undone edit (Ctrl+Shift+Z)"
+                  >
+                    Redo
+                  </button>
+                </div>
+                {/* Drawing tool settings */}
+                {drawingMode !== "source" && drawingMode !== "target" && (
+                  <div className="flex flex-wrap items-center justify-center gap-2">
+                    <div className="join join-horizontal">
+                      {(Object.keys(drawingToolLabels) as DrawingTool[]).map(
+                        (tool) => (
+                          <button
+                            key={tool}
+                            className={`join-item btn btn-sm ${tool === drawingTool ? "btn-primary" : ""}`}
+                            onClick={() => setDrawingTool(tool)}
+                          >
+                            {drawingToolLabels[tool]}
+                          </button>
+                        )
+                      )}
+                    </div>
+                    <label className="flex items-center gap-2 text-sm font-semibold">
+                      Brush Size
+                      <input
+                        type="number"
+                        min={1}
+                        max={maxBrushSize}
+                        step={1}
+                        value={brushSize}
+                        disabled={drawingTool === "fill"}
+                        className="input input-primary input-sm w-20"
+                        onChange={(e) =>
+                          setBrushSize(
+                            Math.min(
+                              maxBrushSize,
+                              Math.max(
+                                1,
+                                Math.round(Number(e.target.value)) || 1
+                              )
+                            )
+                          )
+                        }
+                      />
+                    </label>
+                  </div>
+                )}
+                {/* Terrain brush settings */}
+                {drawingMode === "terrain" && (
+                  <div className="flex flex-wrap items-center justify-center gap-2">
+                    <select
+                      className="select select-primary select-sm w-36"
+                      value={
+                        terrainPresets.find(
+                          (preset) => preset.weight === terrainWeight
+                        )?.label ?? "Custom"
+                      }
+                      onChange={(e) => {
+                        const preset = terrainPresets.find(
+                          ({ label }) => label === e.target.value
+                        );
+                        setTerrainWeight(preset != null ? preset.weight : 2);
+                      }}
+                      title="Terrain type"
+                    >
+                      {terrainPresets.map(({ label, weight }) => (
+                        <option key={label} value={label}>
+                          {label} ({weight})
+                        </option>
+                      ))}
+                      <option value="Custom">Custom</option>
+                    </select>
+                    <label className="flex items-center gap-2 text-sm font-semibold">
+                      Cost
+                      <input
+                        type="number"
+                        min={2}
+                        max={maxTerrainWeight}
+                        step={1}
+                        value={terrainWeight}
+                        className="input input-primary input-sm w-20"
+                        onChange={(e) =>
+                          setTerrainWeight(
+                            Math.min(
+                              maxTerrainWeight,
+                              Math.max(
+                                2,
+                                Math.round(Number(e.target.value)) || 2
+                              )
+                            )
+                          )
+                        }
+                      />
+                    </label>
+                  </div>
+                )}
+              </>
+            )}
+            {/* Canvas container */}
+            <div className="flex w-full flex-col items-center justify-center gap-4 xl:flex-row xl:items-start">
+              <div
+                ref={containerRef}
+                className={`relative mx-auto flex ${
+                  race == null ? "w-[700px]" : "w-full"
+                } items-center justify-center`}
+                data-search-status={searchStatus}
               >
-                Source
-                <svg viewBox="0 0 1 1" className="ml-2 size-3">
-                  <rect
-                    x="0"
-                    y="0"
-                    width="1"
-                    height="1"
-                    fill={getVar("--color-error")}
-                    fillOpacity={drawingMode === "source" ? 1 : 0.25}
+                <ZoomPanView
+                  canvasRef={canvasRef}
+                  cols={cols}
+                  rows={rows}
+                  view={view}
+                  onViewChange={setView}
+                >
+                  <canvas
+                    ref={canvasRef}
+                    className="w-full cursor-pointer touch-none select-none rounded-3xl border-4 border-primary border-dashed shadow-md"
+                    style={{ imageRendering: "pixelated" }}
+                    {...(race == null &&
+                      getScenarioDropHandlers(loadScenarioFile))}
+                    onMouseDown={handlePointerDown}
+                    onMouseUp={handlePointerUp}
+                    onMouseMove={handlePointerMove}
+                    onMouseLeave={handlePointerLeave}
+                    onTouchStart={(e) => {
+                      handlePointerDown(
+                        e
+                          .touches[0] as unknown as React.PointerEvent<HTMLCanvasElement>
+                      );
+                    }}
+                    onTouchEnd={(e) => {
+                      handlePointerUp(
+                        e
+                          .changedTouches[0] as unknown as React.PointerEvent<HTMLCanvasElement>
+                      );
+                    }}
+                    onTouchMove={(e) => {
+                      handlePointerMove(
+                        e
+                          .touches[0] as unknown as React.PointerEvent<HTMLCanvasElement>
+                      );
+                    }}
+                    onTouchCancel={(e) => {
+                      handlePointerLeave(
+                        e
+                          .changedTouches[0] as unknown as React.PointerEvent<HTMLCanvasElement>
+                      );
+                    }}
                   />
-                </svg>
-              </button>
-              <button
-                className="join-item btn btn-primary"
-                onClick={() => setDrawingMode("target")}
-              >
-                Target
-                <svg viewBox="0 0 1 1" className="ml-2 size-3">
-                  <rect
-                    x="0"
-                    y="0"
-                    width="1"
-                    height="1"
-                    fill={getVar("--color-success")}
-                    fillOpacity={drawingMode === "target" ? 1 : 0.25}
+                  <SearchOverlay
+                    canvasRef={canvasRef}
+                    search={search}
+                    cols={cols}
+                    rows={rows}
+                    heatmap={showHeatmap}
+                    tree={showTree}
+                    isSearched={isSearchedCell}
+                    version={timelinePosition}
                   />
-                </svg>
-              </button>
-            </div>
-            {/* Canvas container */}
-            <div className="flex w-full items-center justify-center">
-              <div className="relative mx-auto flex w-[700px] items-center justify-center">
-                <canvas
-                  ref={canvasRef}
-                  className="w-full cursor-pointer touch-none select-none rounded-3xl border-4 border-primary border-dashed shadow-md"
-                  style={{ imageRendering: "pixelated" }}
-                  onMouseDown={handlePointerDown}
-                  onMouseUp={handlePointerUp}
-                  onMouseMove={handlePointerMove}
-                  onMouseLeave={handlePointerLeave}
-                  onTouchStart={(e) => {
-                    handlePointerDown(
-                      e
-                        .touches[0] as unknown as React.PointerEvent<HTMLCanvasElement>
-                    );
-                  }}
-                  onTouchEnd={(e) => {
-                    handlePointerUp(
-                      e
-                        .changedTouches[0] as unknown as React.PointerEvent<HTMLCanvasElement>
-                    );
-                  }}
-                  onTouchMove={(e) => {
-                    handlePointerMove(
-                      e
-                        .touches[0] as unknown as React.PointerEvent<HTMLCanvasElement>
-                    );
-                  }}
-                  onTouchCancel={(e) => {
-                    handlePointerLeave(
-                      e
-                        .changedTouches[0] as unknown as React.PointerEvent<HTMLCanvasElement>
-                    );
-                  }}
-                />
+                </ZoomPanView>
                 {source != null && (
                   <div
+                    ref={sourceTooltipRef}
                     className="dijkstra-source-node tooltip tooltip-top tooltip-open tooltip-error absolute font-bold opacity-80"
                     data-tip="Source Node"
                   />
                 )}
                 {target != null && (
                   <div
+                    ref={targetTooltipRef}
                     className="dijkstra-target-node tooltip tooltip-top tooltip-open tooltip-success absolute font-bold opacity-80"
                     data-tip="Target Node"
                   />
                 )}
                 <div className="bg-transparent text-center font-bold">
-                  {source === null && (
+                  {canDraw && source === null && (
                     <div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-error/40 px-3 py-1 mt-2 text-sm shadow-md">
                       Select "Source" and click on the grid to place a source
                       node. Also add walls to make the pathfinding more interesting.
                     </div>
                   )}
-                  {source !== null && target === null && (
+                  {canDraw && source !== null && target === null && (
                     <div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-success/40 px-3 py-1 mt-2 text-sm shadow-md">
                       Select "Target" and click on the grid to place a target
                       node
@@ -794,7 +1787,8 @@ export default function DijkstraGridDrawer({
                   )}
                   {source !== null && target !== null && dijkstraRunning && (
                     <div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-primary/40 px-3 py-1 mt-2 text-sm shadow-md">
-                      Dijkstra's algorithm running...
+                      {algorithmLabels[algorithm]} running... Expanded:{" "}
+                      {expandedCount}
                     </div>
                   )}
                   {source !== null &&
@@ -802,30 +1796,151 @@ export default function DijkstraGridDrawer({
                     !dijkstraRunning &&
                     pathFound && (
                       <div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-secondary/40 px-3 py-1 mt-2 text-sm shadow-md">
-                        Path found! Length: {pathLength}
+                        Path found! Length: {pathLength}, Cost:{" "}
+                        {Math.round(pathCost * 100) / 100}, Expanded:{" "}
+                        {expandedCount}
+                      </div>
+                    )}
+                  {source !== null &&
+                    target !== null &&
+                    !dijkstraRunning &&
+                    searchStatus === "unreachable" && (
+                      <div className="absolute left-1/2 top-1 -translate-x-1/2 rounded-lg bg-error/40 px-3 py-1 mt-2 text-sm shadow-md">
+                        Target unreachable! Expanded: {expandedCount}
                       </div>
                     )}
                 </div>
+                {hoveredCell != null && (
+                  <CellInspector
+                    {...hoveredCell}
+                    status={
+                      cellsRef.current[hoveredCell.cell.y][hoveredCell.cell.x]
+                        .status
+                    }
+                    details={getInspectorDetails(hoveredCell.cell)}
+                    note={
+                      timelinePosition < timelineLength
+                        ? `Search data as of step ${timelineLength}`
+                        : undefined
+                    }
+                  />
+                )}
               </div>
+              {race == null && (
+                <div className="flex w-full max-w-md flex-col gap-4">
+                  <PseudocodePanel
+                    title={algorithmLabels[algorithm]}
+                    lines={getSearchPseudocode(algorithm)}
+                    phases={searchPhases}
+                  />
+                  {search != null && (
+                    <QueuePanel
+                      title={reverse != null ? "Forward queue" : "Queue"}
+                      size={search.forward.queue.size}
+                      getEntries={(count) =>
+                        getQueueEntries(search.forward, count)
+                      }
+                      queue={search.forward.queue}
+                      version={timelineLength}
+                      highlightNext
+                      sizes={getQueueSizeHistory(0)}
+                      note={
+                        timelinePosition < timelineLength
+                          ? `Queue as of step ${timelineLength}`
+                          : undefined
+                      }
+                    />
+                  )}
+                  {reverse != null && (
+                    <QueuePanel
+                      title="Reverse queue"
+                      size={reverse.queue.size}
+                      getEntries={(count) => getQueueEntries(reverse, count)}
+                      queue={reverse.queue}
+                      version={timelineLength}
+                      highlightNext
+                      sizes={getQueueSizeHistory(1)}
+                    />
+                  )}
+                </div>
+              )}
             </div>
-            {/* Clear buttons */}
-            <div className="join join-horizontal flex items-center justify-center">
-              <button
-                className="join-item btn btn-primary"
-                onClick={clearMaze}
-                title="Clear the entire grid and all algorithm results"
-              >
-                Clear All
-              </button>
-              <button
-                className="join-item btn btn-primary"
-                disabled={source == null || target == null}
-                onClick={clearDijkstraResults}
-                title="Clear only the algorithm results, preserving walls and source/target"
-              >
-                Clear Dijkstra
-              </button>
-            </div>
+            {race != null && (
+              <div className="flex justify-center gap-2">
+                <span className="badge badge-primary">
+                  Expanded: {expandedCount}
+                </span>
+                <span className="badge badge-ghost">
+                  Steps: {timelineLength}
+                </span>
+              </div>
+            )}
+            {race == null && (
+              <>
+                {/* Clear buttons */}
+                <div className="join join-horizontal flex items-center justify-center">
+                  <button
+                    className="join-item btn btn-primary"
+                    onClick={clearAll}
+                    title="Clear the entire grid and all algorithm results"
+                  >
+                    Clear All
+                  </button>
+                  <button
+                    className="join-item btn btn-primary"
+                    disabled={source == null || target == null}
+                    onClick={clearDijkstraResults}
+                    title="Clear only the algorithm results, preserving walls and source/target"
+                  >
+                    Clear Dijkstra
+                  </button>
+                </div>
+                {onResize != null && (
+                  <GridSizeControls
+                    cols={cols}
+                    rows={rows}
+                    min={minGridSize}
+                    max={maxScenarioSize}
+                    onResize={resizeGrid}
+                  />
+                )}
+                <MovingAiImport
+                  onMap={loadBenchmarkMap}
+                  onProblem={placeBenchmarkProblem}
+                  source={source}
+                  target={target}
+                  pathCost={pathFound ? pathCost : null}
+                  searchStatus={searchStatus}
+                />
+                <ScenarioControls
+                  fileName="dijkstra-scenario.json"
+                  canSave
+                  getScenario={getScenario}
+                  getSharedSetup={getSharedSetup}
+                  onFile={loadScenarioFile}
+                  error={scenarioError}
+                  onDismissError={() => setScenarioError(null)}
+                />
+                <ExportMenu
+                  canvasRef={canvasRef}
+                  cols={cols}
+                  rows={rows}
+                  fileName="dijkstra"
+                  runs={[
+                    {
+                      label: algorithmLabels[algorithm],
+                      disabled: source == null || target == null,
+                      start: restartSearch,
+                    },
+                  ]}
+                  isRunning={() =>
+                    schedulerRef.current.running ||
+                    shortestPathAnimatingRef.current
+                  }
+                />
+                <RunStatsTable runs={runs} onClear={() => setRuns([])} />
+              </>
+            )}
           </div>
         </div>
       </div>
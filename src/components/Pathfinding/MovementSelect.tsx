@@ -0,0 +1,61 @@
+import { Movement } from "../../algorithms/movement";
+
+interface MovementSelectProps {
+  movement: Movement;
+  onChange: (movement: Movement) => void;
+  disabled?: boolean;
+}
+
+const movementOptions: Array<{
+  value: string;
+  label: string;
+  movement: Movement;
+}> = [
+  {
+    value: "cardinal",
+    label: "4-way",
+    movement: { model: "cardinal", cornerCutting: "forbid" },
+  },
+  {
+    value: "octile-forbid",
+    label: "8-way, no corner cutting",
+    movement: { model: "octile", cornerCutting: "forbid" },
+  },
+  {
+    value: "octile-allow",
+    label: "8-way, cut corners",
+    movement: { model: "octile", cornerCutting: "allow" },
+  },
+];
+
+export default function MovementSelect({
+  movement,
+  onChange,
+  disabled = false,
+}: MovementSelectProps) {
+  const value =
+    movement.model === "cardinal"
+      ? "cardinal"
+      : `octile-${movement.cornerCutting}`;
+
+  return (
+    <select
+      className="select select-primary select-sm w-52"
+      value={value}
+      disabled={disabled}
+      onChange={(e) => {
+        const option = movementOptions.find(
+          (option) => option.value === e.target.value
+        );
+        if (option != null) onChange(option.movement);
+      }}
+      title="Movement model: diagonal moves cost √2"
+    >
+      {movementOptions.map(({ value, label }) => (
+        <option key={value} value={value}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,190 @@
+import { useRef, useState } from "react";
+import { Point } from "../../algorithms/grid";
+import { GridLayout } from "../../algorithms/gridLayout";
+import {
+  MovingAiProblem,
+  parseMovingAiMap,
+  parseMovingAiScenarios,
+} from "../../algorithms/movingAi";
+import { SearchStatus } from "../../algorithms/searchStatus";
+
+interface MovingAiImportProps {
+  // Loads a map into the grid, returning why it cannot be loaded
+  onMap: (layout: GridLayout) => string | null;
+  // Places the start and goal of a problem, returning why they do not fit
+  onProblem: (problem: MovingAiProblem) => string | null;
+  source: Point | null;
+  target: Point | null;
+  // Cost of the path found between source and target, null until one is
+  pathCost: number | null;
+  searchStatus: SearchStatus;
+}
+
+// Benchmark lengths are printed with 8 decimals
+const costTolerance = 1e-4;
+
+function getFileName(path: string): string {
+  return path.split(/[\\/]/).pop() ?? path;
+}
+
+function isSamePoint(a: Point | null, b: Point): boolean {
+  return a != null && a.x === b.x && a.y === b.y;
+}
+
+export default function MovingAiImport({
+  onMap,
+  onProblem,
+  source,
+  target,
+  pathCost,
+  searchStatus,
+}: MovingAiImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [mapName, setMapName] = useState<string | null>(null);
+  const [problems, setProblems] = useState<MovingAiProblem[]>([]);
+  const [problem, setProblem] = useState<MovingAiProblem | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function importFiles(files: File[]): Promise<void> {
+    // The map goes first, so that a scenario list picked with it can be matched
+    const sorted = [...files].sort(
+      (a, b) =>
+        Number(b.name.endsWith(".map")) - Number(a.name.endsWith(".map"))
+    );
+    setError(null);
+    for (const file of sorted) {
+      let text: string;
+      try {
+        text = await file.text();
+      } catch {
+        setError(`${file.name} could not be read.`);
+        return;
+      }
+
+      if (file.name.endsWith(".scen")) {
+        const result = parseMovingAiScenarios(text);
+        if (!result.ok) {
+          setError(`${file.name}: ${result.error}`);
+          return;
+        }
+        setProblems(result.problems);
+        setProblem(null);
+        continue;
+      }
+
+      const result = parseMovingAiMap(text);
+      const mapError = result.ok ? onMap(result.layout) : result.error;
+      if (mapError != null) {
+        setError(`${file.name}: ${mapError}`);
+        return;
+      }
+      setMapName(file.name);
+      setProblem(null);
+    }
+  }
+
+  function pickProblem(index: number): void {
+    const picked = shownProblems[index] ?? null;
+    setProblem(picked);
+    if (picked != null) setError(onProblem(picked));
+  }
+
+  // A scenario list covers one map, but may be paired with another by mistake
+  const mapProblems = problems.filter(
+    ({ mapName: name }) => getFileName(name) === mapName
+  );
+  const shownProblems = mapProblems.length > 0 ? mapProblems : problems;
+  const problemIndex = problem == null ? -1 : shownProblems.indexOf(problem);
+  const isProblemPlaced =
+    problem != null &&
+    isSamePoint(source, problem.start) &&
+    isSamePoint(target, problem.goal);
+
+  function renderComparison(optimal: number) {
+    if (searchStatus === "unreachable") {
+      return <span className="badge badge-error">No path found</span>;
+    }
+    if (pathCost == null) {
+      return <span className="opacity-70">Run a search to compare</span>;
+    }
+    const difference = pathCost - optimal;
+    if (Math.abs(difference) <= costTolerance) {
+      return <span className="badge badge-success">Optimal</span>;
+    }
+    const sign = difference > 0 ? "+" : "−";
+    const percent = (Math.abs(difference) / optimal) * 100;
+    // Shorter than optimal means the movement rules differ from the benchmark
+    return (
+      <span
+        className={`badge ${difference > 0 ? "badge-warning" : "badge-info"}`}
+      >
+        {`${sign}${Math.abs(difference).toFixed(4)} (${sign}${percent.toFixed(1)}%)`}
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button
+          className="btn btn-primary btn-sm"
+          onClick={() => inputRef.current?.click()}
+          title="Open a Moving AI .map file, a .scen problem list, or both"
+        >
+          Import Benchmark
+        </button>
+        {mapName != null && (
+          <span className="badge badge-ghost">{mapName}</span>
+        )}
+        {problems.length > 0 && (
+          <select
+            className="select select-bordered select-sm w-72"
+            value={problemIndex}
+            onChange={(e) => pickProblem(Number(e.target.value))}
+            aria-label="Benchmark problem"
+          >
+            <option value={-1} disabled>
+              {`Pick one of ${shownProblems.length} problems`}
+            </option>
+            {shownProblems.map(({ bucket, start, goal }, i) => (
+              <option key={i} value={i}>
+                {`#${i + 1} bucket ${bucket}: (${start.x}, ${start.y}) → (${goal.x}, ${goal.y})`}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".map,.scen"
+        multiple
+        hidden
+        onChange={(e) => {
+          importFiles([...(e.target.files ?? [])]);
+          e.target.value = "";
+        }}
+      />
+      {problem != null && isProblemPlaced && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>
+            Optimal {problem.optimalLength.toFixed(4)}
+            {pathCost != null && <>, found {pathCost.toFixed(4)}</>}
+          </span>
+          {renderComparison(problem.optimalLength)}
+        </div>
+      )}
+      {error != null && (
+        <div role="alert" className="alert alert-error max-w-md py-2 text-sm">
+          <span>{error}</span>
+          <button
+            className="btn btn-ghost btn-xs"
+            onClick={() => setError(null)}
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}